@@ -0,0 +1,133 @@
+/**
+ * Item Analysis
+ *
+ * Classical test theory over the problem set. Each problem is an item and
+ * each model under one prompting setup (condition, mode, style, template
+ * variant, selector, temperature, arrangement, repetition) is a respondent
+ * that answered the items. An item's p-value is the share of correct
+ * responses, so higher means easier. Its discrimination is the item-rest
+ * correlation: how well getting it right tracks the respondent's score on
+ * the other items. Items every response gets right (ceiling) or wrong
+ * (floor) cannot separate conditions. Observed difficulty bands are compared
+ * with the hand-set labels in problems.json.
+ */
+
+import { Difficulty } from '../dataset';
+import { pearsonCorrelation, spearmanCorrelation } from './stats';
+
+export interface ItemResponse {
+  item: string;
+  respondent: string;
+  correct: boolean;
+}
+
+export interface ItemStatistics {
+  item: string;
+  responses: number;
+  respondents: number;
+  pValue: number; // Share of responses correct; higher is easier
+  discrimination: number | null; // Item-rest correlation; null when either side has no variance
+  ceiling: boolean; // Every response correct
+  floor: boolean; // Every response wrong
+}
+
+export interface DifficultyCalibration {
+  items: number; // Labelled items analysed
+  // Labelled difficulty → observed band counts and the label's mean p-value
+  byLabel: Record<Difficulty, { items: number; meanPValue: number | null; observed: Record<Difficulty, number> }>;
+  agreement: number; // Share of items whose observed band matches the label
+  spearman: number | null; // Label rank (easy < medium < hard) against 1 - p
+  mislabeled: Array<{ item: string; labelled: Difficulty; observed: Difficulty; pValue: number }>;
+}
+
+// Lowest p-value of each observed band, easiest first
+export const OBSERVED_BANDS: Array<{ difficulty: Difficulty; minPValue: number }> = [
+  { difficulty: 'easy', minPValue: 0.8 },
+  { difficulty: 'medium', minPValue: 0.5 },
+  { difficulty: 'hard', minPValue: 0 }
+];
+
+// Item-rest correlations below this barely separate strong respondents from weak ones
+export const LOW_DISCRIMINATION = 0.2;
+
+const DIFFICULTY_RANK: Record<Difficulty, number> = { easy: 1, medium: 2, hard: 3 };
+
+// ============================================================================
+// ITEM STATISTICS
+// ============================================================================
+
+export function observedDifficulty(pValue: number): Difficulty {
+  return OBSERVED_BANDS.find(band => pValue >= band.minPValue)!.difficulty;
+}
+
+export function analyzeItems(responses: ItemResponse[]): ItemStatistics[] {
+  // respondent → item → [correct, total]; a respondent can answer an item more than once
+  const scores = new Map<string, Map<string, [number, number]>>();
+  for (const { item, respondent, correct } of responses) {
+    const items = scores.get(respondent) ?? new Map<string, [number, number]>();
+    const [right, total] = items.get(item) ?? [0, 0];
+    items.set(item, [right + (correct ? 1 : 0), total + 1]);
+    scores.set(respondent, items);
+  }
+
+  const itemIds = [...new Set(responses.map(r => r.item))];
+  return itemIds.map(item => {
+    const own = responses.filter(r => r.item === item);
+    const correctCount = own.filter(r => r.correct).length;
+
+    // Respondents with this item and at least one other; the rest score is the
+    // share of their other items right, so respondents missing items still count
+    const itemScores: number[] = [];
+    const restScores: number[] = [];
+    for (const items of scores.values()) {
+      const score = items.get(item);
+      const rest = [...items].filter(([other]) => other !== item).map(([, s]) => s[0] / s[1]);
+      if (!score || rest.length === 0) continue;
+      itemScores.push(score[0] / score[1]);
+      restScores.push(rest.reduce((sum, s) => sum + s, 0) / rest.length);
+    }
+
+    return {
+      item,
+      responses: own.length,
+      respondents: new Set(own.map(r => r.respondent)).size,
+      pValue: correctCount / own.length,
+      discrimination: pearsonCorrelation(itemScores, restScores),
+      ceiling: correctCount === own.length,
+      floor: correctCount === 0
+    };
+  });
+}
+
+// ============================================================================
+// CALIBRATION
+// ============================================================================
+
+export function calibrateDifficulty(items: ItemStatistics[], labels: Record<string, Difficulty>): DifficultyCalibration {
+  const labelled = items.filter(i => labels[i.item] !== undefined);
+  const difficulties = OBSERVED_BANDS.map(band => band.difficulty);
+  const emptyCounts = () => Object.fromEntries(difficulties.map(d => [d, 0])) as Record<Difficulty, number>;
+
+  const byLabel = Object.fromEntries(difficulties.map(label => {
+    const group = labelled.filter(i => labels[i.item] === label);
+    const observed = emptyCounts();
+    group.forEach(i => { observed[observedDifficulty(i.pValue)]++; });
+    return [label, {
+      items: group.length,
+      meanPValue: group.length > 0 ? group.reduce((sum, i) => sum + i.pValue, 0) / group.length : null,
+      observed
+    }];
+  })) as DifficultyCalibration['byLabel'];
+
+  const mislabeled = labelled
+    .map(i => ({ item: i.item, labelled: labels[i.item], observed: observedDifficulty(i.pValue), pValue: i.pValue }))
+    .filter(i => i.labelled !== i.observed);
+
+  return {
+    items: labelled.length,
+    byLabel,
+    agreement: labelled.length > 0 ? (labelled.length - mislabeled.length) / labelled.length : 0,
+    spearman: spearmanCorrelation(labelled.map(i => DIFFICULTY_RANK[labels[i.item]]), labelled.map(i => 1 - i.pValue)),
+    mislabeled
+  };
+}
@@ -0,0 +1,210 @@
+/**
+ * Example Overlap and Leakage
+ *
+ * Compares a response with the few-shot examples its prompt showed, to tell
+ * format imitation apart from answer leakage. Imitation is the point of
+ * few-shot prompting: reusing an example's wording (with numbers masked) and
+ * its block layout. Leakage is carrying over what belongs to the example's
+ * problem: its numbers, or its final answer. A number only counts as copied
+ * when it sits between the same tokens as in the example ("= 8 m"), so an
+ * intermediate value that happens to match (√25 = 5) does not. Text the target problem shares
+ * with the example ("A car accelerates from rest at ...") is not counted as
+ * copied, and neither are numbers the target problem or its reference answer
+ * contain.
+ */
+
+import { Problem, FewShotExample } from '../dataset';
+import { extractAnswer } from '../graders/extraction';
+import { Block, parseBlocks } from '../graders/format';
+import { gradeMathAnswer } from '../graders/math';
+
+export type OverlapFlag = 'copied-wording' | 'copied-numbers' | 'copied-answer';
+export type OverlapVerdict = 'leakage' | 'imitation' | 'independent';
+
+export interface ExampleOverlap {
+  exampleId: string;
+  wording: number; // Share of the response's word n-grams (numbers masked) found in the example and not the problem
+  structure: number; // Similarity of the two block skeletons, 0-1
+  copiedNumbers: string[]; // Example numbers the response reuses in the same context, absent from the problem and its reference
+  copiedAnswer: boolean; // The response's final answer is the example's
+}
+
+export interface OverlapResult {
+  examples: ExampleOverlap[]; // In prompt order
+  closest: string | null; // Example with the most wording overlap
+  wording: number; // Highest over the examples
+  structure: number;
+  copiedNumbers: string[]; // Over all examples
+  copiedAnswer: string | null; // Id of the example whose answer the response gives
+  flags: OverlapFlag[];
+  verdict: OverlapVerdict; // Leakage on copied numbers or answer, imitation on copied wording or layout
+}
+
+// Word n-gram length for the wording overlap
+export const NGRAM = 5;
+
+// Wording overlap at which a response counts as copying the example's text
+export const WORDING_THRESHOLD = 0.5;
+
+// Skeleton similarity at which a response counts as imitating the example's layout
+export const STRUCTURE_THRESHOLD = 0.8;
+
+// Distinct example numbers needed to flag copying; one shared number is often chance
+export const COPIED_NUMBERS_THRESHOLD = 2;
+
+// Too common in any worked solution to say where they came from
+const TRIVIAL_NUMBERS = new Set(['0', '1', '2']);
+
+// ============================================================================
+// TOKENS
+// ============================================================================
+
+const TOKEN = /\\[A-Za-z]+|\d+(?:\.\d+)?|\p{L}+|[=+×·/^()→<>]|(?<!-)-(?!-)/gu;
+const NUMBER = /^\d+(?:\.\d+)?$/;
+
+// Lower-cased words, numbers, LaTeX commands and operators; Markdown markup is dropped
+function tokenize(text: string): string[] {
+  return [...text.toLowerCase().matchAll(TOKEN)].map(match => match[0]);
+}
+
+const maskNumbers = (tokens: string[]) => tokens.map(token => NUMBER.test(token) ? '#' : token);
+
+function ngrams(tokens: string[]): Set<string> {
+  const grams = new Set<string>();
+  for (let i = 0; i + NGRAM <= tokens.length; i++) grams.add(tokens.slice(i, i + NGRAM).join(' '));
+  return grams;
+}
+
+// Numbers as values, so "16" and "16.0" agree; list markers and "Step n" labels are not content
+function numberTokens(text: string): string[] {
+  const stripped = text.replace(/^\s*\d+[.)]\s+/gm, '').replace(/\bstep\s+\d+/gi, '');
+  return tokenize(stripped).map(token => NUMBER.test(token) ? String(parseFloat(token)) : token);
+}
+
+const numbersIn = (text: string) => new Set(numberTokens(text).filter(token => NUMBER.test(token)));
+
+// number → the "previous number next" token triples it appears in
+function numberContexts(text: string): Map<string, Set<string>> {
+  const tokens = numberTokens(text);
+  const contexts = new Map<string, Set<string>>();
+  tokens.forEach((token, i) => {
+    if (!NUMBER.test(token)) return;
+    contexts.set(token, (contexts.get(token) ?? new Set()).add(`${tokens[i - 1] ?? ''} ${token} ${tokens[i + 1] ?? ''}`));
+  });
+  return contexts;
+}
+
+// ============================================================================
+// STRUCTURE
+// ============================================================================
+
+const BOLD_LABEL = /^\s*(?:[-*+]|\d+[.)])?\s*\*\*([^*]+?):?\*\*/;
+
+// One entry per block: its kind, plus heading text, bold label or table headers with numbers masked
+function skeleton(blocks: Block[]): string[] {
+  return blocks.map(block => {
+    const label = (text: string) => maskNumbers(tokenize(text)).join(' ');
+    if (block.kind === 'heading') return `heading:${label(block.text)}`;
+    if (block.kind === 'table') return `table:${label((block.headers ?? []).join(' '))}`;
+    const bold = block.text.match(BOLD_LABEL);
+    return bold ? `${block.kind}:${label(bold[1])}` : block.kind;
+  });
+}
+
+// Dice coefficient over the longest common subsequence
+function sequenceSimilarity(a: string[], b: string[]): number {
+  if (a.length + b.length === 0) return 0;
+  let previous = new Array<number>(b.length + 1).fill(0);
+  for (const x of a) {
+    const current = [0];
+    b.forEach((y, j) => current.push(x === y ? previous[j] + 1 : Math.max(previous[j + 1], current[j])));
+    previous = current;
+  }
+  return (2 * previous[b.length]) / (a.length + b.length);
+}
+
+// ============================================================================
+// ANSWERS
+// ============================================================================
+
+const normalizeAnswer = (answer: string) => answer
+  .replace(/\\boxed\{(.*)\}/g, '$1')
+  .replace(/\\(?:left|right|[,;! ])/g, '')
+  .replace(/[\s$*]/g, '')
+  .toLowerCase();
+
+function sameAnswer(problem: Problem, response: string, responseAnswer: string, exampleAnswer: string): boolean {
+  if (normalizeAnswer(responseAnswer) === normalizeAnswer(exampleAnswer)) return true;
+  if (problem.grading.method !== 'math') return false;
+  // The example's answer stands in for the reference; unparseable answers only match as text
+  try {
+    return gradeMathAnswer(response, exampleAnswer).verdict === 'equivalent';
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+export function detectOverlap(response: string, problem: Problem, examples: FewShotExample[]): OverlapResult {
+  const responseTokens = tokenize(response);
+  const responseGrams = ngrams(maskNumbers(responseTokens));
+  const problemGrams = ngrams(maskNumbers(tokenize(problem.prompt)));
+  const responseSkeleton = skeleton(parseBlocks(response));
+
+  const responseNumbers = numberContexts(response);
+  const ownNumbers = new Set([...numbersIn(problem.prompt), ...numbersIn(problem.referenceAnswer)]);
+  const responseAnswer = extractAnswer(response).answer;
+
+  const overlaps = examples.map((example): ExampleOverlap => {
+    const exampleText = `${example.problem}\n${example.solution}`;
+    const exampleGrams = ngrams(maskNumbers(tokenize(exampleText)));
+    const copiedGrams = [...responseGrams].filter(gram => exampleGrams.has(gram) && !problemGrams.has(gram));
+
+    const copiedNumbers = [...numberContexts(exampleText)]
+      .filter(([n, contexts]) => !ownNumbers.has(n) && !TRIVIAL_NUMBERS.has(n) &&
+        [...(responseNumbers.get(n) ?? [])].some(context => contexts.has(context)))
+      .map(([n]) => n);
+
+    // An example whose answer is also this problem's answer can't leak it
+    const exampleAnswer = extractAnswer(example.solution).answer;
+    const copiedAnswer = responseAnswer !== null && exampleAnswer !== null &&
+      normalizeAnswer(exampleAnswer) !== normalizeAnswer(problem.referenceAnswer) &&
+      sameAnswer(problem, response, responseAnswer, exampleAnswer);
+
+    return {
+      exampleId: example.id,
+      wording: responseGrams.size > 0 ? copiedGrams.length / responseGrams.size : 0,
+      structure: sequenceSimilarity(responseSkeleton, skeleton(parseBlocks(example.solution))),
+      copiedNumbers,
+      copiedAnswer
+    };
+  });
+
+  const closest = overlaps.reduce<ExampleOverlap | null>((best, o) => best === null || o.wording > best.wording ? o : best, null);
+  const wording = closest?.wording ?? 0;
+  const structure = Math.max(0, ...overlaps.map(o => o.structure));
+  const copiedNumbers = [...new Set(overlaps.flatMap(o => o.copiedNumbers))];
+  const copiedAnswer = overlaps.find(o => o.copiedAnswer)?.exampleId ?? null;
+
+  const flags: OverlapFlag[] = [];
+  if (wording >= WORDING_THRESHOLD) flags.push('copied-wording');
+  if (overlaps.some(o => o.copiedNumbers.length >= COPIED_NUMBERS_THRESHOLD)) flags.push('copied-numbers');
+  if (copiedAnswer) flags.push('copied-answer');
+
+  const leaked = flags.includes('copied-numbers') || flags.includes('copied-answer');
+  const imitated = flags.includes('copied-wording') || structure >= STRUCTURE_THRESHOLD;
+
+  return {
+    examples: overlaps,
+    closest: closest?.exampleId ?? null,
+    wording,
+    structure,
+    copiedNumbers,
+    copiedAnswer,
+    flags,
+    verdict: leaked ? 'leakage' : imitated ? 'imitation' : 'independent'
+  };
+}
@@ -0,0 +1,247 @@
+/**
+ * Statistics
+ *
+ * Confidence intervals and paired significance tests for comparing prompting
+ * conditions. Bootstrap intervals resample whole clusters (one problem and
+ * model with all of its repetitions) so repeated samples of the same problem
+ * are not treated as independent evidence. Paired tests compare two
+ * conditions on the same problems: McNemar for correct/incorrect outcomes,
+ * Wilcoxon signed-rank for numeric measures such as token counts. Pearson
+ * and Spearman correlations back the item analysis. Everything is
+ * deterministic for a given seed.
+ */
+
+// ============================================================================
+// RANDOMNESS
+// ============================================================================
+
+// mulberry32: small, fast, and good enough for resampling
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// ============================================================================
+// BOOTSTRAP
+// ============================================================================
+
+export interface ConfidenceInterval {
+  estimate: number;
+  lower: number;
+  upper: number;
+}
+
+export interface BootstrapOptions {
+  iterations?: number;
+  confidence?: number;
+  seed?: number;
+}
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+// Percentile bootstrap of the pooled mean, resampling clusters with replacement
+export function bootstrapCI(
+  clusters: number[][],
+  { iterations = 2000, confidence = 0.95, seed = 1 }: BootstrapOptions = {}
+): ConfidenceInterval | null {
+  const nonEmpty = clusters.filter(c => c.length > 0);
+  if (nonEmpty.length === 0) return null;
+
+  const estimate = mean(nonEmpty.flat());
+  const rng = createRng(seed);
+  const stats: number[] = [];
+  for (let i = 0; i < iterations; i++) {
+    let sum = 0;
+    let count = 0;
+    for (let j = 0; j < nonEmpty.length; j++) {
+      const cluster = nonEmpty[Math.floor(rng() * nonEmpty.length)];
+      for (const value of cluster) sum += value;
+      count += cluster.length;
+    }
+    stats.push(sum / count);
+  }
+  stats.sort((a, b) => a - b);
+
+  const alpha = (1 - confidence) / 2;
+  const at = (q: number) => stats[Math.min(stats.length - 1, Math.max(0, Math.floor(q * stats.length)))];
+  return { estimate, lower: at(alpha), upper: at(1 - alpha) };
+}
+
+// ============================================================================
+// DISTRIBUTIONS
+// ============================================================================
+
+// Complementary error function (Numerical Recipes erfcc, |error| < 1.2e-7)
+function erfc(x: number): number {
+  const z = Math.abs(x);
+  const t = 1 / (1 + z / 2);
+  const r = t * Math.exp(-z * z - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418 +
+    t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 +
+    t * (-0.82215223 + t * 0.17087277)))))))));
+  return x >= 0 ? r : 2 - r;
+}
+
+// Two-sided p-value for a standard normal statistic
+export function normalTwoSided(z: number): number {
+  return Math.min(1, erfc(Math.abs(z) / Math.SQRT2));
+}
+
+// Two-sided exact binomial test of k successes in n trials at p = 0.5
+function binomialTwoSided(k: number, n: number): number {
+  const tail = Math.min(k, n - k);
+  let logCoefficient = 0; // log C(n, 0)
+  let p = 0;
+  for (let i = 0; i <= tail; i++) {
+    if (i > 0) logCoefficient += Math.log(n - i + 1) - Math.log(i);
+    p += Math.exp(logCoefficient - n * Math.LN2);
+  }
+  return Math.min(1, 2 * p);
+}
+
+// ============================================================================
+// PAIRED TESTS
+// ============================================================================
+
+export interface McNemarResult {
+  pairs: number;
+  onlyA: number; // Correct under A only
+  onlyB: number; // Correct under B only
+  pValue: number;
+  exact: boolean;
+}
+
+// Exact binomial test on the discordant pairs when there are few of them,
+// chi-square with continuity correction otherwise
+export function mcnemarTest(pairs: Array<[boolean, boolean]>): McNemarResult {
+  const onlyA = pairs.filter(([a, b]) => a && !b).length;
+  const onlyB = pairs.filter(([a, b]) => !a && b).length;
+  const discordant = onlyA + onlyB;
+
+  if (discordant === 0) return { pairs: pairs.length, onlyA, onlyB, pValue: 1, exact: true };
+  if (discordant < 25) {
+    return { pairs: pairs.length, onlyA, onlyB, pValue: binomialTwoSided(onlyA, discordant), exact: true };
+  }
+  const chiSquare = Math.pow(Math.abs(onlyA - onlyB) - 1, 2) / discordant;
+  return { pairs: pairs.length, onlyA, onlyB, pValue: normalTwoSided(Math.sqrt(chiSquare)), exact: false };
+}
+
+export interface WilcoxonResult {
+  pairs: number;
+  nonZero: number; // Pairs with a non-zero difference
+  medianDifference: number; // Median of b - a
+  pValue: number;
+  exact: boolean;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Wilcoxon signed-rank test on b - a. Zero differences are dropped; ties get
+// average ranks. Exact null distribution for small untied samples, normal
+// approximation with tie and continuity corrections otherwise.
+export function wilcoxonSignedRank(pairs: Array<[number, number]>): WilcoxonResult {
+  const differences = pairs.map(([a, b]) => b - a);
+  const medianDifference = differences.length > 0 ? median(differences) : 0;
+  const nonZero = differences.filter(d => d !== 0);
+  const n = nonZero.length;
+  if (n === 0) return { pairs: pairs.length, nonZero: 0, medianDifference, pValue: 1, exact: true };
+
+  // Average ranks of |d|
+  const order = nonZero.map((d, i) => ({ abs: Math.abs(d), i })).sort((x, y) => x.abs - y.abs);
+  const ranks = new Array<number>(n);
+  let tieCorrection = 0;
+  for (let start = 0; start < n;) {
+    let end = start;
+    while (end + 1 < n && order[end + 1].abs === order[start].abs) end++;
+    const rank = (start + end) / 2 + 1;
+    for (let k = start; k <= end; k++) ranks[order[k].i] = rank;
+    const t = end - start + 1;
+    tieCorrection += t * t * t - t;
+    start = end + 1;
+  }
+  const wPlus = nonZero.reduce((sum, d, i) => sum + (d > 0 ? ranks[i] : 0), 0);
+
+  if (n <= 25 && tieCorrection === 0) {
+    // counts[w] = number of sign assignments with W+ = w
+    const maxW = (n * (n + 1)) / 2;
+    let counts = new Array<number>(maxW + 1).fill(0);
+    counts[0] = 1;
+    for (let r = 1; r <= n; r++) {
+      const next = [...counts];
+      for (let w = r; w <= maxW; w++) next[w] += counts[w - r];
+      counts = next;
+    }
+    const total = Math.pow(2, n);
+    const low = Math.min(wPlus, maxW - wPlus);
+    let tail = 0;
+    for (let w = 0; w <= low; w++) tail += counts[w];
+    return { pairs: pairs.length, nonZero: n, medianDifference, pValue: Math.min(1, (2 * tail) / total), exact: true };
+  }
+
+  const expected = (n * (n + 1)) / 4;
+  const variance = (n * (n + 1) * (2 * n + 1)) / 24 - tieCorrection / 48;
+  const z = variance > 0 ? Math.max(0, Math.abs(wPlus - expected) - 0.5) / Math.sqrt(variance) : 0;
+  return { pairs: pairs.length, nonZero: n, medianDifference, pValue: normalTwoSided(z), exact: false };
+}
+
+// Holm-Bonferroni step-down adjustment; returns adjusted p-values in input order
+export function holmAdjust(pValues: number[]): number[] {
+  const order = pValues.map((p, i) => ({ p, i })).sort((a, b) => a.p - b.p);
+  const adjusted = new Array<number>(pValues.length);
+  let running = 0;
+  order.forEach(({ p, i }, rank) => {
+    running = Math.max(running, Math.min(1, (pValues.length - rank) * p));
+    adjusted[i] = running;
+  });
+  return adjusted;
+}
+
+// ============================================================================
+// CORRELATION
+// ============================================================================
+
+// Pearson correlation; null when either side has no variance
+export function pearsonCorrelation(xs: number[], ys: number[]): number | null {
+  if (xs.length !== ys.length) throw new Error(`Correlation needs paired values, got ${xs.length} and ${ys.length}`);
+  const n = xs.length;
+  if (n < 2) return null;
+
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += (xs[i] - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  }
+  return varianceX === 0 || varianceY === 0 ? null : covariance / Math.sqrt(varianceX * varianceY);
+}
+
+// 1-based ranks, ties sharing their average rank
+function averageRanks(values: number[]): number[] {
+  const order = values.map((value, i) => ({ value, i })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+  for (let start = 0; start < order.length;) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) end++;
+    for (let k = start; k <= end; k++) ranks[order[k].i] = (start + end) / 2 + 1;
+    start = end + 1;
+  }
+  return ranks;
+}
+
+// Spearman rank correlation: Pearson on average ranks, so ties are handled
+export function spearmanCorrelation(xs: number[], ys: number[]): number | null {
+  return pearsonCorrelation(averageRanks(xs), averageRanks(ys));
+}
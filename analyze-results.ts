@@ -5,197 +5,185 @@
  * from the experiment results.
  *
  * Run with: npx tsx scripts/stem-fewshot-experiments/analyze-results.ts
+ * Add --judge stub|<model> to also grade every response with an LLM judge,
+ * and --run <runId> to analyze a config-driven run from results/runs/.
+ * Confidence intervals and paired tests between conditions come from analysis/stats.ts.
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
+import * as dotenv from 'dotenv';
+import { analyzeItems, calibrateDifficulty, ItemResponse, ItemStatistics, LOW_DISCRIMINATION, OBSERVED_BANDS, observedDifficulty } from './analysis/items';
+import { detectOverlap, OverlapFlag, OverlapVerdict } from './analysis/overlap';
+import { bootstrapCI, ConfidenceInterval, holmAdjust, mcnemarTest, McNemarResult, wilcoxonSignedRank, WilcoxonResult } from './analysis/stats';
+import { Difficulty, Domain, loadDataset } from './dataset';
+import { PromptVariant } from './experiments/config';
+import { ExampleSelectorName } from './experiments/selectors';
+import { EquationGradeResult, EquationVerdict, gradeEquation } from './graders/chemistry';
+import { EXTRACTION_RULES, ExtractionRule, ExtractionStatus, extractAnswer } from './graders/extraction';
+import { analyzeFormat, FormatAnalysis, SectionStatus } from './graders/format';
+import { gradeMathAnswer, MathGradeResult, MathVerdict } from './graders/math';
+import { compareWithRules, createJudge, extractProblemStatement, JudgeName, JudgeVerdict } from './graders/judge';
+import { gradeQuantities, QuantityGrade, QuantityStatus } from './graders/quantities';
+import { gradeRubric, RubricItemScore } from './graders/rubric';
+import { voteResponses } from './graders/voting';
+import { PROMPT_STYLES, PromptStyle } from './prompts';
+import { ChatMessage, costOf, listModels, resolveUsage, TokenUsage } from './providers';
+
+// Load environment variables (API keys for model judges)
+dotenv.config({ path: path.resolve(__dirname, '../../.env.local') });
 
 const RESULTS_DIR = path.join(__dirname, 'results');
+const RUNS_DIR = path.join(RESULTS_DIR, 'runs');
 
 interface ExperimentResult {
   problemId: string;
-  model: 'claude' | 'gemini';
-  condition: 'zero-shot' | '1-shot' | '3-shot' | '5-shot';
+  model: string;
+  condition: string; // 'zero-shot' or '<n>-shot'
+  repetition?: number; // Absent on single-sample results
+  sample?: number; // Voting runs: 1-based sample within the vote
+  samples?: number; // Voting runs: samples per vote
+  exampleIds?: string[]; // Examples in the prompt, in order; absent on results from before example selectors
+  effectiveShots?: number; // Examples actually in the prompt; absent on results from before example selectors
+  arrangement?: string; // Example order variant in sensitivity runs: 'original', 'permutation-<n>', 'drop-<i>'
+  temperature?: number; // Absent on results recorded before temperatures were stored
+  promptVariant?: PromptVariant; // Absent on results from before prompt templates, which were all 'default'
+  templateVersion?: string; // Version of the variant's template in prompts/templates.json
+  selector?: ExampleSelectorName; // Absent on results from before example selectors, which were all 'fixed'
+  exampleSeed?: number; // Recorded for the 'random' selector and permutations
+  promptMode?: 'inline' | 'chat'; // Absent on results from before chat-format prompts
+  promptStyle?: PromptStyle; // Absent on results from before prompt styles, which were all 'default'
   prompt: string;
+  system?: string; // Chat mode: system prompt sent
+  history?: ChatMessage[]; // Chat mode: example turns sent before the prompt
   response: string;
   tokenCount: number;
+  usage?: TokenUsage; // Absent on failed calls and on results recorded before usage tracking
+  costUsd?: number;
   latencyMs: number;
   timestamp: string;
+  datasetVersion?: string; // Absent on results recorded before the dataset was versioned
 }
 
-interface ProblemExpectedAnswer {
-  id: string;
-  domain: string;
-  expectedPatterns: string[];
-  correctAnswer: string;
+// Recorded usage and cost, or an offline estimate priced from models.json for older results
+function usageAndCost(result: ExperimentResult): { usage: TokenUsage; costUsd: number | null } {
+  if (result.response.startsWith('ERROR')) {
+    return { usage: { inputTokens: 0, outputTokens: 0, estimated: false }, costUsd: 0 };
+  }
+  const usage = result.usage ?? resolveUsage({ prompt: result.prompt }, result.response);
+  const pricing = listModels().find(m => m.name === result.model)?.pricing;
+  return { usage, costUsd: result.costUsd ?? costOf(pricing, usage) };
 }
 
-// Expected answers and patterns for verification
-const EXPECTED_ANSWERS: ProblemExpectedAnswer[] = [
-  {
-    id: 'math-1',
-    domain: 'math',
-    expectedPatterns: ['-x²cos(x)', '2xsin(x)', '2cos(x)', 'x^2\\cos', 'x^2 \\cos'],
-    correctAnswer: '-x²cos(x) + 2xsin(x) + 2cos(x) + C'
-  },
-  {
-    id: 'math-2',
-    domain: 'math',
-    expectedPatterns: ['e^x', 'ln(x²+1)', '2x/(x²+1)', 'frac{2x}{x^2+1}'],
-    correctAnswer: 'eˣ[ln(x²+1) + 2x/(x²+1)]'
-  },
-  {
-    id: 'math-3',
-    domain: 'math',
-    expectedPatterns: ['3', '= 3'],
-    correctAnswer: '3'
-  },
-  {
-    id: 'math-4',
-    domain: 'math',
-    expectedPatterns: ['x^x', 'ln(x)', 'ln x', '+ 1', '(\\ln(x) + 1)', '(ln x + 1)'],
-    correctAnswer: 'x^x(ln(x) + 1)'
-  },
-  {
-    id: 'math-5',
-    domain: 'math',
-    expectedPatterns: ['π/2', 'pi/2', '\\frac{\\pi}{2}', 'frac{pi}{2}'],
-    correctAnswer: 'π/2'
-  },
-  {
-    id: 'physics-1',
-    domain: 'physics',
-    expectedPatterns: ['10', 'm', '40', 'height', 'range'],
-    correctAnswer: 'Max height = 10 m, Range = 40 m'
-  },
-  {
-    id: 'physics-2',
-    domain: 'physics',
-    expectedPatterns: ['1.26', '2π', 'period', '0.5', 'velocity'],
-    correctAnswer: 'Period ≈ 1.26 s, Max velocity = 0.5 m/s'
-  },
-  {
-    id: 'physics-3',
-    domain: 'physics',
-    expectedPatterns: ['15', '37.5', 'm/s', 'velocity', 'distance'],
-    correctAnswer: 'Final velocity = 15 m/s, Distance = 37.5 m'
-  },
-  {
-    id: 'physics-4',
-    domain: 'physics',
-    expectedPatterns: ['2.4', 'μF', '12', 'mJ', 'energy', 'capacitance'],
-    correctAnswer: 'Equivalent capacitance = 2.4 μF, Energy = 12 mJ'
-  },
-  {
-    id: 'chem-1',
-    domain: 'chemistry',
-    expectedPatterns: ['4Fe', '3O₂', '6H₂O', '4Fe(OH)₃'],
-    correctAnswer: '4Fe + 3O₂ + 6H₂O → 4Fe(OH)₃'
-  },
-  {
-    id: 'chem-2',
-    domain: 'chemistry',
-    expectedPatterns: ['4Al', '3O₂', '2Al₂O₃'],
-    correctAnswer: '4Al + 3O₂ → 2Al₂O₃'
-  },
-  {
-    id: 'chem-3',
-    domain: 'chemistry',
-    expectedPatterns: ['14.625', 'g', 'gram'],
-    correctAnswer: '14.625 g'
-  },
-  {
-    id: 'chem-4',
-    domain: 'chemistry',
-    expectedPatterns: ['5Fe', 'MnO₄', '8H', 'Mn²⁺', '4H₂O'],
-    correctAnswer: 'MnO₄⁻ + 8H⁺ + 5Fe²⁺ → Mn²⁺ + 5Fe³⁺ + 4H₂O'
-  },
-  {
-    id: 'bio-1',
-    domain: 'biology',
-    expectedPatterns: ['glycolysis', 'ATP', '2', 'pyruvate', 'glucose'],
-    correctAnswer: 'Net yield: 2 ATP, 2 NADH, 2 Pyruvate'
-  },
-  {
-    id: 'bio-2',
-    domain: 'biology',
-    expectedPatterns: ['DNA', 'helicase', 'polymerase', 'primase', 'replication'],
-    correctAnswer: 'DNA replication process with enzymes'
-  },
-  {
-    id: 'bio-3',
-    domain: 'biology',
-    expectedPatterns: ['adenine', 'thymine', 'guanine', 'cytosine', 'A-T', 'G-C', 'A', 'T', 'G', 'C'],
-    correctAnswer: 'A-T, G-C base pairing'
-  }
-];
-
-// Check if response contains expected patterns
-function checkCorrectness(problemId: string, response: string): { correct: boolean; score: number } {
-  const expected = EXPECTED_ANSWERS.find(e => e.id === problemId);
-  if (!expected) return { correct: false, score: 0 };
-
-  const responseLower = response.toLowerCase();
-  const responseNormalized = response.replace(/\s+/g, '').toLowerCase();
-
-  let matchCount = 0;
-  for (const pattern of expected.expectedPatterns) {
-    const patternLower = pattern.toLowerCase();
-    const patternNormalized = pattern.replace(/\s+/g, '').toLowerCase();
-
-    if (responseLower.includes(patternLower) || responseNormalized.includes(patternNormalized)) {
-      matchCount++;
-    }
-  }
-
-  const score = matchCount / expected.expectedPatterns.length;
-  const correct = score >= 0.5; // At least 50% of patterns matched
-
-  return { correct, score };
-}
+const DATASET = loadDataset();
+const EXAMPLES_BY_ID = new Map(Object.values(DATASET.examples).flat().map(example => [example.id, example]));
+
+// Significance level for the paired tests, after Holm adjustment
+const ALPHA = 0.05;
 
-// Check format adherence
-function checkFormatAdherence(response: string): {
-  hasLatex: boolean;
-  hasBoxedAnswer: boolean;
-  hasSteps: boolean;
-  hasTables: boolean;
-  formatScore: number;
+const shotCount = (condition: string) => condition === 'zero-shot' ? 0 : parseInt(condition, 10);
+
+// Check correctness: math answers are graded symbolically, quantities with units
+// against their SI values, chemical equations by atom/charge balance and reduced
+// coefficients, and explanations against a weighted rubric
+function checkCorrectness(problemId: string, response: string): {
+  correct: boolean;
+  score: number;
+  mathGrade?: MathGradeResult;
+  quantityGrades?: QuantityGrade[];
+  equationGrade?: EquationGradeResult;
+  rubricItems?: RubricItemScore[];
 } {
-  const hasLatex = response.includes('$') || response.includes('\\frac') || response.includes('\\int');
-  const hasBoxedAnswer = response.includes('\\boxed') || response.includes('**Answer:**') || response.includes('## Answer');
-  const hasSteps = response.includes('Step 1') || response.includes('### Step') || response.includes('## Step');
-  const hasTables = response.includes('|') && response.split('|').length > 4;
-
-  let formatScore = 0;
-  if (hasLatex) formatScore += 3;
-  if (hasBoxedAnswer) formatScore += 3;
-  if (hasSteps) formatScore += 2;
-  if (hasTables) formatScore += 2;
-
-  return {
-    hasLatex,
-    hasBoxedAnswer,
-    hasSteps,
-    hasTables,
-    formatScore
-  };
+  const problem = DATASET.problems.find(p => p.id === problemId);
+  if (!problem) return { correct: false, score: 0 };
+
+  const { grading } = problem;
+  switch (grading.method) {
+    case 'math': {
+      const mathGrade = gradeMathAnswer(response, problem.referenceAnswer);
+      const correct = mathGrade.verdict === 'equivalent';
+      return { correct, score: correct ? 1 : 0, mathGrade };
+    }
+    case 'quantities': {
+      const { quantities, allMatched, score } = gradeQuantities(response, grading);
+      return { correct: allMatched, score, quantityGrades: quantities };
+    }
+    case 'equation': {
+      const equationGrade = gradeEquation(response, grading.equation);
+      const correct = equationGrade.verdict === 'correct';
+      return { correct, score: correct ? 1 : 0, equationGrade };
+    }
+    case 'rubric': {
+      const { items, score, passed } = gradeRubric(response, grading);
+      return { correct: passed, score, rubricItems: items };
+    }
+  }
+}
+
+// Check format adherence from the parsed structure (graders/format.ts). The
+// format score is the domain's 0-10 checklist of the sections its prompt
+// instructions ask for; responses to unknown problems score 0.
+function checkFormatAdherence(response: string, domain?: Domain): FormatAnalysis & { formatScore: number } {
+  const analysis = analyzeFormat(response, domain);
+  return { ...analysis, formatScore: analysis.structure?.checklist ?? 0 };
+}
+
+function parseJudgeArg(args: string[]): JudgeName | null {
+  const index = args.indexOf('--judge');
+  if (index === -1) return null;
+
+  const name = args[index + 1] ?? '';
+  const judgeNames = ['stub', ...listModels().map(m => m.name)];
+  if (!judgeNames.includes(name)) {
+    throw new Error(`--judge expects one of ${judgeNames.join(', ')}, got "${name}"`);
+  }
+  return name;
 }
 
 // Main analysis function
-function analyzeResults() {
-  const resultsPath = path.join(RESULTS_DIR, 'experiment-results.json');
+async function analyzeResults() {
+  const args = process.argv.slice(2);
+  const judgeName = parseJudgeArg(args);
+  const runIndex = args.indexOf('--run');
+  // Config-driven runs live in results/runs/<runId>/; without --run, read the legacy results/
+  const resultsDir = runIndex === -1 ? RESULTS_DIR : path.join(RUNS_DIR, args[runIndex + 1] ?? '');
+  const resultsPath = path.join(resultsDir, 'experiment-results.json');
   const results: ExperimentResult[] = JSON.parse(fs.readFileSync(resultsPath, 'utf-8'));
 
   console.log('STEM Few-Shot Experiment Analysis');
   console.log('==================================\n');
+  console.log(`Dataset: ${DATASET.name} v${DATASET.version}`);
   console.log(`Total experiments: ${results.length}\n`);
 
+  // Results graded against a different dataset version may use stale answers
+  const versionCounts = new Map<string, number>();
+  for (const result of results) {
+    const version = result.datasetVersion ?? 'unversioned';
+    versionCounts.set(version, (versionCounts.get(version) ?? 0) + 1);
+  }
+  const staleVersions = [...versionCounts].filter(([version]) => version !== DATASET.version);
+  for (const [version, count] of staleVersions) {
+    const label = version === 'unversioned' ? 'an unversioned dataset' : `dataset v${version}`;
+    console.log(`Warning: ${count} results were recorded against ${label}, grading with v${DATASET.version}`);
+  }
+  if (staleVersions.length > 0) console.log('');
+
   // Analysis storage
   interface AnalysisRecord {
     problemId: string;
     model: string;
     condition: string;
+    repetition: number;
+    sample: number; // 1 outside voting runs
+    arrangement: string;
+    temperature: number | null; // null on results recorded before temperatures were stored
+    promptVariant: PromptVariant;
+    templateVersion: string | null; // null on results from before prompt templates
+    selector: ExampleSelectorName;
+    exampleSeed: number | null; // null where the selector draws no random examples
+    promptMode: string;
+    promptStyle: PromptStyle;
+    effectiveShots: number;
     domain: string;
     correct: boolean;
     correctnessScore: number;
@@ -203,21 +191,106 @@ function analyzeResults() {
     hasLatex: boolean;
     hasBoxedAnswer: boolean;
     hasSteps: boolean;
-    tokenCount: number;
+    structure: {
+      headings: number;
+      tables: number;
+      malformedTables: number;
+      displayMath: number;
+      inlineMath: number;
+      latexErrors: number;
+      stepLists: number; // Numbered and bulleted lists of two or more items
+      compliance: number | null; // Share of the domain's requested sections found in order
+      sections?: Record<string, SectionStatus>;
+    };
+    tokenCount: number; // Completion tokens
+    promptTokens: number;
+    usageEstimated: boolean;
+    costUsd: number | null; // null when the model has no pricing
     latencyMs: number;
+    extraction: {
+      status: ExtractionStatus;
+      rule: ExtractionRule | null;
+      confidence: number;
+      answer: string | null;
+      conflicts?: string[];
+    };
+    mathVerdict?: MathVerdict;
+    extractedAnswer?: string | null;
+    quantityGrades?: QuantityGrade[];
+    equationGrade?: EquationGradeResult;
+    rubricItems?: RubricItemScore[];
+    judgeVerdict?: JudgeVerdict;
+    overlap?: { // Few-shot responses: reuse of the prompt's examples (analysis/overlap.ts)
+      closest: string | null;
+      wording: number;
+      structure: number;
+      copiedNumbers: string[];
+      copiedAnswer: string | null;
+      flags: OverlapFlag[];
+      verdict: OverlapVerdict;
+    };
+    // What was sent and returned, for the HTML report's drill-down
+    prompt: string;
+    system?: string;
+    history?: ChatMessage[];
+    response: string;
   }
 
-  const analysisRecords: AnalysisRecord[] = [];
+  const allRecords: AnalysisRecord[] = [];
+  const judge = judgeName ? createJudge(judgeName) : null;
+  if (judge) console.log(`Judge mode: ${judge.name}\n`);
 
   for (const result of results) {
-    const { correct, score: correctnessScore } = checkCorrectness(result.problemId, result.response);
-    const formatAnalysis = checkFormatAdherence(result.response);
+    const {
+      correct,
+      score: correctnessScore,
+      mathGrade,
+      quantityGrades,
+      equationGrade,
+      rubricItems
+    } = checkCorrectness(result.problemId, result.response);
+    const extraction = extractAnswer(result.response);
     const domain = result.problemId.split('-')[0];
+    const problem = DATASET.problems.find(p => p.id === result.problemId);
+    const formatAnalysis = checkFormatAdherence(result.response, problem?.domain);
+    const { usage, costUsd } = usageAndCost(result);
+    // Older results always took the first n examples of the domain pool
+    const effectiveShots = result.effectiveShots ?? Math.min(shotCount(result.condition), problem ? DATASET.examples[problem.domain].length : 0);
+    const shown = result.exampleIds
+      ? result.exampleIds.flatMap(id => EXAMPLES_BY_ID.get(id) ?? [])
+      : problem ? DATASET.examples[problem.domain].slice(0, effectiveShots) : [];
+    const overlap = problem && shown.length > 0 && !result.response.startsWith('ERROR')
+      ? detectOverlap(result.response, problem, shown)
+      : null;
 
-    analysisRecords.push({
+    // Only first samples of the original arrangement reach the agreement table;
+    // failed calls have nothing to grade
+    const judged = (result.sample ?? 1) === 1 && (result.arrangement ?? 'original') === 'original' && !result.response.startsWith('ERROR');
+    let judgeVerdict: JudgeVerdict | undefined;
+    if (judge && judged) {
+      judgeVerdict = await judge.judge({
+        problemId: result.problemId,
+        problem: problem?.prompt ?? extractProblemStatement(result.prompt),
+        referenceAnswer: problem?.referenceAnswer ?? '',
+        response: result.response
+      });
+    }
+
+    allRecords.push({
       problemId: result.problemId,
       model: result.model,
       condition: result.condition,
+      repetition: result.repetition ?? 1,
+      sample: result.sample ?? 1,
+      arrangement: result.arrangement ?? 'original',
+      temperature: result.temperature ?? null,
+      promptVariant: result.promptVariant ?? 'default',
+      templateVersion: result.templateVersion ?? null,
+      selector: result.selector ?? 'fixed',
+      exampleSeed: result.exampleSeed ?? null,
+      promptMode: result.promptMode ?? 'inline',
+      promptStyle: result.promptStyle ?? 'default',
+      effectiveShots,
       domain,
       correct,
       correctnessScore,
@@ -225,126 +298,1214 @@ function analyzeResults() {
       hasLatex: formatAnalysis.hasLatex,
       hasBoxedAnswer: formatAnalysis.hasBoxedAnswer,
       hasSteps: formatAnalysis.hasSteps,
-      tokenCount: result.tokenCount,
-      latencyMs: result.latencyMs
+      structure: {
+        headings: formatAnalysis.headings,
+        tables: formatAnalysis.tables,
+        malformedTables: formatAnalysis.malformedTables,
+        displayMath: formatAnalysis.displayMath,
+        inlineMath: formatAnalysis.inlineMath,
+        latexErrors: formatAnalysis.latexErrors.length,
+        stepLists: formatAnalysis.numberedLists + formatAnalysis.bulletedLists,
+        compliance: formatAnalysis.structure?.score ?? null,
+        ...(formatAnalysis.structure && {
+          sections: Object.fromEntries(formatAnalysis.structure.sections.map(s => [s.id, s.status]))
+        })
+      },
+      tokenCount: usage.outputTokens,
+      promptTokens: usage.inputTokens,
+      usageEstimated: usage.estimated,
+      costUsd,
+      latencyMs: result.latencyMs,
+      extraction: {
+        status: extraction.status,
+        rule: extraction.rule,
+        confidence: extraction.confidence,
+        answer: extraction.answer,
+        ...(extraction.conflicts.length > 0 && { conflicts: extraction.conflicts })
+      },
+      ...(mathGrade && { mathVerdict: mathGrade.verdict, extractedAnswer: mathGrade.extractedAnswer }),
+      ...(quantityGrades && { quantityGrades }),
+      ...(equationGrade && { equationGrade }),
+      ...(rubricItems && { rubricItems }),
+      ...(judgeVerdict && { judgeVerdict }),
+      ...(overlap && {
+        overlap: {
+          closest: overlap.closest,
+          wording: overlap.wording,
+          structure: overlap.structure,
+          copiedNumbers: overlap.copiedNumbers,
+          copiedAnswer: overlap.copiedAnswer,
+          flags: overlap.flags,
+          verdict: overlap.verdict
+        }
+      }),
+      prompt: result.prompt,
+      ...(result.system !== undefined && { system: result.system }),
+      ...(result.history && { history: result.history }),
+      response: result.response
     });
   }
 
-  // Aggregate by condition
-  const conditions = ['zero-shot', '1-shot', '3-shot', '5-shot'];
+  // Voting runs draw several samples per cell; every section but the voting
+  // one reads the first sample, so cells and pairs stay single-sample
+  const firstSamples = allRecords.filter(r => r.sample === 1);
+
+  // Reorderings and leave-one-out variants are copies of one example set, not
+  // independent draws, so only the sensitivity section uses them
+  const analysisRecords = firstSamples.filter(r => r.arrangement === 'original');
+
+  // Conditions name the requested shot count; small example pools can deliver fewer
+  const shortfalls = new Map<string, Set<number>>();
+  for (const r of analysisRecords.filter(r => r.effectiveShots < shotCount(r.condition))) {
+    const key = `${r.domain} ${r.condition}`;
+    shortfalls.set(key, (shortfalls.get(key) ?? new Set()).add(r.effectiveShots));
+  }
+  if (shortfalls.size > 0) {
+    const details = [...shortfalls].map(([key, counts]) => `${key} (got ${[...counts].join('/')})`).join(', ');
+    console.log(`Note: some conditions got fewer examples than their shot count: ${details}\n`);
+  }
+
+  // Aggregate by condition, in shot-count order
+  const conditions = [...new Set(results.map(r => r.condition))].sort((a, b) => shotCount(a) - shotCount(b));
   const domains = ['math', 'physics', 'chem', 'bio'];
 
+  // Per-condition table columns: "Zero-Shot", "1-Shot", ... at least 6 wide
+  const conditionLabel = (condition: string) => condition.replace(/(^|-)(\w)/g, (_, sep, c) => sep + c.toUpperCase());
+  const columnWidth = (condition: string) => Math.max(6, conditionLabel(condition).length);
+  const conditionHeader = conditions.map(c => conditionLabel(c).padEnd(columnWidth(c))).join(' | ');
+  const conditionRule = conditions.map(c => '-'.repeat(columnWidth(c) + 2)).join('|');
+
+  // Every table is split by model, in the order models appear in the results
+  const models = [...new Set(analysisRecords.map(r => r.model))];
+  const modelWidth = Math.max(10, ...models.map(m => m.length));
+  const modelHeader = 'Model'.padEnd(modelWidth);
+  const modelRule = '-'.repeat(modelWidth + 2);
+  const recordsFor = (model: string, condition?: string) =>
+    analysisRecords.filter(r => r.model === model && (condition === undefined || r.condition === condition));
+
   console.log('=== CORRECTNESS BY CONDITION ===\n');
-  console.log('| Condition  | Correct | Total | Accuracy | Avg Score |');
-  console.log('|------------|---------|-------|----------|-----------|');
+  console.log(`| ${modelHeader} | Condition  | Correct | Total | Accuracy | Avg Score |`);
+  console.log(`|${modelRule}|------------|---------|-------|----------|-----------|`);
 
-  for (const condition of conditions) {
-    const conditionRecords = analysisRecords.filter(r => r.condition === condition);
-    const correctCount = conditionRecords.filter(r => r.correct).length;
-    const avgScore = conditionRecords.reduce((sum, r) => sum + r.correctnessScore, 0) / conditionRecords.length;
+  for (const model of models) {
+    for (const condition of conditions) {
+      const conditionRecords = recordsFor(model, condition);
+      if (conditionRecords.length === 0) continue;
+      const correctCount = conditionRecords.filter(r => r.correct).length;
+      const avgScore = conditionRecords.reduce((sum, r) => sum + r.correctnessScore, 0) / conditionRecords.length;
 
-    console.log(`| ${condition.padEnd(10)} | ${correctCount.toString().padStart(7)} | ${conditionRecords.length.toString().padStart(5)} | ${((correctCount / conditionRecords.length) * 100).toFixed(1).padStart(7)}% | ${(avgScore * 100).toFixed(1).padStart(8)}% |`);
+      console.log(`| ${model.padEnd(modelWidth)} | ${condition.padEnd(10)} | ${correctCount.toString().padStart(7)} | ${conditionRecords.length.toString().padStart(5)} | ${((correctCount / conditionRecords.length) * 100).toFixed(1).padStart(7)}% | ${(avgScore * 100).toFixed(1).padStart(8)}% |`);
+    }
   }
 
+  // Model × condition × domain cube, one row per model and domain
   console.log('\n=== CORRECTNESS BY DOMAIN ===\n');
-  console.log('| Domain    | Zero-Shot | 1-Shot | 3-Shot | 5-Shot |');
-  console.log('|-----------|-----------|--------|--------|--------|');
+  console.log(`| ${modelHeader} | Domain    | ${conditionHeader} |`);
+  console.log(`|${modelRule}|-----------|${conditionRule}|`);
+
+  for (const model of models) {
+    for (const domain of domains) {
+      const row = [model.padEnd(modelWidth), domain.padEnd(9)];
+      for (const condition of conditions) {
+        const records = recordsFor(model, condition).filter(r => r.domain === domain);
+        const correctCount = records.filter(r => r.correct).length;
+        const accuracy = records.length > 0 ? ((correctCount / records.length) * 100).toFixed(0) + '%' : 'N/A';
+        row.push(accuracy.padStart(columnWidth(condition)));
+      }
+      console.log(`| ${row.join(' | ')} |`);
+    }
+  }
 
-  for (const domain of domains) {
-    const row = [domain.padEnd(9)];
+  // Which rule found each final answer (graders/extraction.ts); graders only
+  // look past the final-answer section when nothing marks one
+  console.log('\n=== FINAL ANSWER EXTRACTION ===\n');
+  console.log(`| ${modelHeader} | Condition  | Boxed | Answer Line | Heading | Display Math | Trailing Line | Missing | Conflicting | Avg Confidence |`);
+  console.log(`|${modelRule}|------------|-------|-------------|---------|--------------|---------------|---------|-------------|----------------|`);
+
+  const extractionSummary: Record<string, Record<string, { byRule: Record<ExtractionRule, number>; missing: number; conflicting: number; avgConfidence: number }>> = {};
+  for (const model of models) {
+    extractionSummary[model] = {};
     for (const condition of conditions) {
-      const records = analysisRecords.filter(r => r.domain === domain && r.condition === condition);
-      const correctCount = records.filter(r => r.correct).length;
-      const accuracy = records.length > 0 ? ((correctCount / records.length) * 100).toFixed(0) + '%' : 'N/A';
-      row.push(accuracy.padStart(condition === 'zero-shot' ? 9 : 6));
+      const records = recordsFor(model, condition);
+      if (records.length === 0) continue;
+      const byRule = Object.fromEntries(
+        EXTRACTION_RULES.map(rule => [rule, records.filter(r => r.extraction.rule === rule).length])
+      ) as Record<ExtractionRule, number>;
+      const missing = records.filter(r => r.extraction.status === 'missing').length;
+      const conflicting = records.filter(r => r.extraction.status === 'conflicting').length;
+      const avgConfidence = records.reduce((sum, r) => sum + r.extraction.confidence, 0) / records.length;
+      extractionSummary[model][condition] = { byRule, missing, conflicting, avgConfidence };
+
+      console.log(`| ${model.padEnd(modelWidth)} | ${condition.padEnd(10)} | ${byRule['boxed'].toString().padStart(5)} | ${byRule['answer-line'].toString().padStart(11)} | ${byRule['answer-heading'].toString().padStart(7)} | ${byRule['display-math'].toString().padStart(12)} | ${byRule['trailing-line'].toString().padStart(13)} | ${missing.toString().padStart(7)} | ${conflicting.toString().padStart(11)} | ${avgConfidence.toFixed(2).padStart(14)} |`);
+    }
+  }
+
+  const conflicted = analysisRecords.filter(r => r.extraction.status === 'conflicting');
+  if (conflicted.length > 0) {
+    console.log('\nResponses stating conflicting final answers:');
+    for (const r of conflicted) {
+      console.log(`  - ${r.problemId} ${r.model} ${r.condition} (rep ${r.repetition}): ${r.extraction.conflicts!.map(c => `"${c.replace(/\s+/g, ' ')}"`).join(' vs ')}`);
+    }
+  }
+
+  console.log('\n=== MATH ANSWER VERDICTS ===\n');
+  console.log(`| ${modelHeader} | Condition  | Equivalent | Not Equivalent | Unparseable |`);
+  console.log(`|${modelRule}|------------|------------|----------------|-------------|`);
+
+  for (const model of models) {
+    for (const condition of conditions) {
+      const mathRecords = recordsFor(model, condition).filter(r => r.mathVerdict);
+      if (mathRecords.length === 0) continue;
+      const count = (verdict: MathVerdict) => mathRecords.filter(r => r.mathVerdict === verdict).length;
+
+      console.log(`| ${model.padEnd(modelWidth)} | ${condition.padEnd(10)} | ${count('equivalent').toString().padStart(10)} | ${count('not-equivalent').toString().padStart(14)} | ${count('unparseable').toString().padStart(11)} |`);
+    }
+  }
+
+  console.log('\n=== QUANTITY RESULTS (VALUE + UNIT) ===\n');
+  console.log(`| ${modelHeader} | Condition  | Matched | Wrong Value | Wrong Unit | Missing |`);
+  console.log(`|${modelRule}|------------|---------|-------------|------------|---------|`);
+
+  for (const model of models) {
+    for (const condition of conditions) {
+      const grades = recordsFor(model, condition).flatMap(r => r.quantityGrades ?? []);
+      if (grades.length === 0) continue;
+      const count = (status: QuantityStatus) => grades.filter(q => q.status === status).length;
+
+      console.log(`| ${model.padEnd(modelWidth)} | ${condition.padEnd(10)} | ${count('matched').toString().padStart(7)} | ${count('wrong-value').toString().padStart(11)} | ${count('wrong-unit').toString().padStart(10)} | ${count('missing').toString().padStart(7)} |`);
+    }
+  }
+
+  console.log('\n=== CHEMICAL EQUATION VERDICTS ===\n');
+  console.log(`| ${modelHeader} | Condition  | Correct | Not Reduced | Unbalanced | Wrong Coeff | Wrong Species | Unparseable |`);
+  console.log(`|${modelRule}|------------|---------|-------------|------------|-------------|---------------|-------------|`);
+
+  for (const model of models) {
+    for (const condition of conditions) {
+      const grades = recordsFor(model, condition)
+        .filter(r => r.equationGrade)
+        .map(r => r.equationGrade!);
+      if (grades.length === 0) continue;
+      const count = (verdict: EquationVerdict) => grades.filter(g => g.verdict === verdict).length;
+
+      console.log(`| ${model.padEnd(modelWidth)} | ${condition.padEnd(10)} | ${count('correct').toString().padStart(7)} | ${count('not-reduced').toString().padStart(11)} | ${count('unbalanced').toString().padStart(10)} | ${count('wrong-coefficients').toString().padStart(11)} | ${count('wrong-species').toString().padStart(13)} | ${count('unparseable').toString().padStart(11)} |`);
+    }
+  }
+
+  console.log('\n=== RUBRIC ITEM HIT RATES ===\n');
+  console.log(`| Problem | Item               | ${modelHeader} | ${conditionHeader} | Misconceptions |`);
+  console.log(`|---------|--------------------|${modelRule}|${conditionRule}|----------------|`);
+
+  for (const problem of DATASET.problems) {
+    if (problem.grading.method !== 'rubric') continue;
+    for (const item of problem.grading.items) {
+      for (const model of models) {
+        const row = [problem.id.padEnd(7), item.id.padEnd(18), model.padEnd(modelWidth)];
+        let misconceptionCount = 0;
+        for (const condition of conditions) {
+          const scores = recordsFor(model, condition)
+            .filter(r => r.problemId === problem.id)
+            .map(r => r.rubricItems?.find(i => i.id === item.id))
+            .filter((i): i is RubricItemScore => i !== undefined);
+          const hits = scores.filter(i => i.earned > 0).length;
+          misconceptionCount += scores.filter(i => i.misconceptions.length > 0).length;
+          row.push(`${hits}/${scores.length}`.padStart(columnWidth(condition)));
+        }
+        row.push(misconceptionCount.toString().padStart(14));
+        console.log(`| ${row.join(' | ')} |`);
+      }
+    }
+  }
+
+  if (judge) {
+    console.log(`\n=== JUDGE AGREEMENT (rules vs ${judge.name}) ===\n`);
+    console.log(`| ${modelHeader} | Condition  | Both ✓ | Both ✗ | Rule Only ✓ | Judge Only ✓ | Errors | Agreement | Kappa |`);
+    console.log(`|${modelRule}|------------|--------|--------|-------------|--------------|--------|-----------|-------|`);
+
+    const judgedPairs = (records: AnalysisRecord[]) =>
+      records.filter(r => r.judgeVerdict).map(r => ({ rule: r.correct, judge: r.judgeVerdict! }));
+
+    for (const model of models) {
+      for (const condition of [...conditions, 'all']) {
+        const records = condition === 'all' ? recordsFor(model) : recordsFor(model, condition);
+        const agreement = compareWithRules(judgedPairs(records));
+
+        console.log(`| ${model.padEnd(modelWidth)} | ${condition.padEnd(10)} | ${agreement.bothCorrect.toString().padStart(6)} | ${agreement.bothIncorrect.toString().padStart(6)} | ${agreement.ruleOnlyCorrect.toString().padStart(11)} | ${agreement.judgeOnlyCorrect.toString().padStart(12)} | ${agreement.judgeErrors.toString().padStart(6)} | ${(agreement.agreementRate * 100).toFixed(1).padStart(8)}% | ${agreement.kappa.toFixed(2).padStart(5)} |`);
+      }
+    }
+
+    const disagreements = analysisRecords.filter(r => r.judgeVerdict && r.judgeVerdict.correct !== null && r.judgeVerdict.correct !== r.correct);
+    if (disagreements.length > 0) {
+      console.log('\nDisagreements:');
+      for (const r of disagreements) {
+        console.log(`  ${r.problemId} ${r.model} ${r.condition}: rules ${r.correct ? '✓' : '✗'}, judge ${r.judgeVerdict!.correct ? '✓' : '✗'} (${r.judgeVerdict!.confidence.toFixed(2)}) - ${r.judgeVerdict!.rationale}`);
+      }
     }
-    console.log(`| ${row.join(' | ')} |`);
   }
 
   console.log('\n=== FORMAT ADHERENCE BY CONDITION ===\n');
-  console.log('| Condition  | Avg Format | LaTeX % | Boxed % | Steps % |');
-  console.log('|------------|------------|---------|---------|---------|');
+  console.log(`| ${modelHeader} | Condition  | Avg Format | LaTeX % | Boxed % | Steps % |`);
+  console.log(`|${modelRule}|------------|------------|---------|---------|---------|`);
+
+  for (const model of models) {
+    for (const condition of conditions) {
+      const conditionRecords = recordsFor(model, condition);
+      if (conditionRecords.length === 0) continue;
+      const avgFormat = conditionRecords.reduce((sum, r) => sum + r.formatScore, 0) / conditionRecords.length;
+      const latexPct = (conditionRecords.filter(r => r.hasLatex).length / conditionRecords.length) * 100;
+      const boxedPct = (conditionRecords.filter(r => r.hasBoxedAnswer).length / conditionRecords.length) * 100;
+      const stepsPct = (conditionRecords.filter(r => r.hasSteps).length / conditionRecords.length) * 100;
+
+      console.log(`| ${model.padEnd(modelWidth)} | ${condition.padEnd(10)} | ${avgFormat.toFixed(1).padStart(10)} | ${latexPct.toFixed(0).padStart(6)}% | ${boxedPct.toFixed(0).padStart(6)}% | ${stepsPct.toFixed(0).padStart(6)}% |`);
+    }
+  }
+
+  // Counts per response from the parsed Markdown, so a stray "|" or "$5" no
+  // longer passes for a table or LaTeX; Structure is the share of each
+  // domain's requested sections that appear in the requested order
+  console.log('\n=== FORMAT STRUCTURE BY CONDITION ===\n');
+  console.log(`| ${modelHeader} | Condition  | Tables | Bad Tables | Display Math | Inline Math | LaTeX Errors | Step Lists | Headings | Structure % |`);
+  console.log(`|${modelRule}|------------|--------|------------|--------------|-------------|--------------|------------|----------|-------------|`);
+
+  const structureSummary: Record<string, Record<string, {
+    tables: number;
+    malformedTables: number;
+    displayMath: number;
+    inlineMath: number;
+    latexErrors: number;
+    stepLists: number;
+    headings: number;
+    compliance: number | null;
+  }>> = {};
+  for (const model of models) {
+    structureSummary[model] = {};
+    for (const condition of conditions) {
+      const records = recordsFor(model, condition);
+      if (records.length === 0) continue;
+      const avg = (field: 'tables' | 'malformedTables' | 'displayMath' | 'inlineMath' | 'stepLists' | 'headings') =>
+        records.reduce((sum, r) => sum + r.structure[field], 0) / records.length;
+      const latexErrors = records.reduce((sum, r) => sum + r.structure.latexErrors, 0);
+      const scored = records.filter(r => r.structure.compliance !== null);
+      const compliance = scored.length > 0 ? scored.reduce((sum, r) => sum + r.structure.compliance!, 0) / scored.length : null;
+      structureSummary[model][condition] = {
+        tables: avg('tables'),
+        malformedTables: avg('malformedTables'),
+        displayMath: avg('displayMath'),
+        inlineMath: avg('inlineMath'),
+        latexErrors,
+        stepLists: avg('stepLists'),
+        headings: avg('headings'),
+        compliance
+      };
+
+      const s = structureSummary[model][condition];
+      const structure = compliance === null ? 'N/A' : (compliance * 100).toFixed(0) + '%';
+      console.log(`| ${model.padEnd(modelWidth)} | ${condition.padEnd(10)} | ${s.tables.toFixed(1).padStart(6)} | ${s.malformedTables.toFixed(1).padStart(10)} | ${s.displayMath.toFixed(1).padStart(12)} | ${s.inlineMath.toFixed(1).padStart(11)} | ${latexErrors.toString().padStart(12)} | ${s.stepLists.toFixed(1).padStart(10)} | ${s.headings.toFixed(1).padStart(8)} | ${structure.padStart(11)} |`);
+    }
+  }
+  console.log('(Averages per response, except LaTeX Errors: total math spans that would not render)');
+
+  // Share of responses missing each checklist section: whether the examples
+  // teach the structure the instructions ask for, section by section
+  console.log('\n=== FORMAT CHECKLIST: MISSING SECTIONS ===\n');
+  console.log(`| ${modelHeader} | Domain    | Section         | ${conditionHeader} |`);
+  console.log(`|${modelRule}|-----------|-----------------|${conditionRule}|`);
+
+  const checklistSummary: Record<string, Record<string, Record<string, { avgScore: number; missing: Record<string, number> }>>> = {};
+  for (const model of models) {
+    checklistSummary[model] = {};
+    for (const domain of domains) {
+      const domainRecords = recordsFor(model).filter(r => r.domain === domain && r.structure.sections);
+      if (domainRecords.length === 0) continue;
+      const sectionIds = Object.keys(domainRecords[0].structure.sections!);
+
+      checklistSummary[model][domain] = {};
+      for (const condition of conditions) {
+        const records = domainRecords.filter(r => r.condition === condition);
+        if (records.length === 0) continue;
+        checklistSummary[model][domain][condition] = {
+          avgScore: records.reduce((sum, r) => sum + r.formatScore, 0) / records.length,
+          missing: Object.fromEntries(sectionIds.map(id => [
+            id,
+            records.filter(r => r.structure.sections![id] === 'missing').length / records.length
+          ]))
+        };
+      }
+
+      const cells = (value: (condition: string) => string) =>
+        conditions.map(c => (checklistSummary[model][domain][c] ? value(c) : 'N/A').padStart(columnWidth(c))).join(' | ');
+      for (const id of sectionIds) {
+        console.log(`| ${model.padEnd(modelWidth)} | ${domain.padEnd(9)} | ${id.padEnd(15)} | ${cells(c => (checklistSummary[model][domain][c].missing[id] * 100).toFixed(0) + '%')} |`);
+      }
+      console.log(`| ${model.padEnd(modelWidth)} | ${domain.padEnd(9)} | ${'Avg score'.padEnd(15)} | ${cells(c => checklistSummary[model][domain][c].avgScore.toFixed(1))} |`);
+    }
+  }
+  console.log('(Share of responses missing each section; Avg score is the 0-10 checklist)');
+
+  // Reuse of the prompt's examples (analysis/overlap.ts): copied wording and
+  // layout are format imitation, copied numbers or final answers are leakage
+  console.log('\n=== EXAMPLE OVERLAP: IMITATION VS LEAKAGE ===\n');
+  console.log(`| ${modelHeader} | Condition  | Responses | Wording | Structure | Copied Wording | Copied Numbers | Copied Answer | Imitation | Leakage | Leakage Acc |`);
+  console.log(`|${modelRule}|------------|-----------|---------|-----------|----------------|----------------|---------------|-----------|---------|-------------|`);
+
+  const overlapSummary: Record<string, Record<string, {
+    responses: number;
+    avgWording: number;
+    avgStructure: number;
+    flags: Record<OverlapFlag, number>;
+    verdicts: Record<OverlapVerdict, number>;
+    leakageAccuracy: number | null;
+  }>> = {};
+  for (const model of models) {
+    overlapSummary[model] = {};
+    for (const condition of conditions) {
+      const records = recordsFor(model, condition).filter(r => r.overlap);
+      if (records.length === 0) continue;
+      const count = (match: (r: AnalysisRecord) => boolean) => records.filter(match).length;
+      const leaked = records.filter(r => r.overlap!.verdict === 'leakage');
+      const row = overlapSummary[model][condition] = {
+        responses: records.length,
+        avgWording: records.reduce((sum, r) => sum + r.overlap!.wording, 0) / records.length,
+        avgStructure: records.reduce((sum, r) => sum + r.overlap!.structure, 0) / records.length,
+        flags: {
+          'copied-wording': count(r => r.overlap!.flags.includes('copied-wording')),
+          'copied-numbers': count(r => r.overlap!.flags.includes('copied-numbers')),
+          'copied-answer': count(r => r.overlap!.flags.includes('copied-answer'))
+        },
+        verdicts: {
+          leakage: leaked.length,
+          imitation: count(r => r.overlap!.verdict === 'imitation'),
+          independent: count(r => r.overlap!.verdict === 'independent')
+        },
+        leakageAccuracy: leaked.length > 0 ? leaked.filter(r => r.correct).length / leaked.length : null
+      };
+      const share = (n: number) => `${((n / records.length) * 100).toFixed(0)}%`;
+      const leakageAccuracy = row.leakageAccuracy === null ? '-' : `${(row.leakageAccuracy * 100).toFixed(0)}%`;
+      console.log(`| ${model.padEnd(modelWidth)} | ${condition.padEnd(10)} | ${records.length.toString().padStart(9)} | ${row.avgWording.toFixed(2).padStart(7)} | ${row.avgStructure.toFixed(2).padStart(9)} | ${share(row.flags['copied-wording']).padStart(14)} | ${share(row.flags['copied-numbers']).padStart(14)} | ${share(row.flags['copied-answer']).padStart(13)} | ${share(row.verdicts.imitation).padStart(9)} | ${share(row.verdicts.leakage).padStart(7)} | ${leakageAccuracy.padStart(11)} |`);
+    }
+  }
+  console.log('(Wording: share of response n-grams, numbers masked, found in the closest example; Structure: block layout similarity)');
+
+  const leaks = analysisRecords.filter(r => r.overlap?.verdict === 'leakage');
+  if (leaks.length === 0) {
+    console.log('\nNo response reuses an example\'s numbers or final answer.');
+  } else {
+    console.log('\nResponses reusing example numbers or answers:');
+    for (const r of leaks) {
+      const evidence = [
+        ...(r.overlap!.copiedNumbers.length > 0 ? [`numbers ${r.overlap!.copiedNumbers.join(', ')}`] : []),
+        ...(r.overlap!.copiedAnswer ? [`final answer of ${r.overlap!.copiedAnswer}`] : [])
+      ];
+      console.log(`  ${r.problemId} ${r.model} ${r.condition}: ${evidence.join('; ')} (${r.correct ? 'correct' : 'incorrect'})`);
+    }
+  }
+
+  // Per model, since prices differ: shows whether longer few-shot prompts pay for themselves in shorter answers
+  console.log('\n=== TOKEN USAGE AND COST BY CONDITION ===\n');
+  console.log(`| ${modelHeader} | Condition  | Prompt Tok | Completion Tok | Cost/Call (USD) | Total (USD) | Avg Latency (ms) |`);
+  console.log(`|${modelRule}|------------|------------|----------------|-----------------|-------------|------------------|`);
+
+  for (const model of models) {
+    for (const condition of conditions) {
+      const records = recordsFor(model, condition);
+      if (records.length === 0) continue;
+
+      const mark = records.some(r => r.usageEstimated) ? '*' : ' ';
+      const avgPrompt = records.reduce((sum, r) => sum + r.promptTokens, 0) / records.length;
+      const avgCompletion = records.reduce((sum, r) => sum + r.tokenCount, 0) / records.length;
+      const avgLatency = records.reduce((sum, r) => sum + r.latencyMs, 0) / records.length;
+      const priced = records.every(r => r.costUsd !== null);
+      const totalCost = records.reduce((sum, r) => sum + (r.costUsd ?? 0), 0);
+      const perCall = priced ? '$' + (totalCost / records.length).toFixed(5) : 'no pricing';
+      const total = priced ? '$' + totalCost.toFixed(4) : 'no pricing';
+
+      console.log(`| ${model.padEnd(modelWidth)} | ${condition.padEnd(10)} | ${(avgPrompt.toFixed(0) + mark).padStart(10)} | ${(avgCompletion.toFixed(0) + mark).padStart(14)} | ${perCall.padStart(15)} | ${total.padStart(11)} | ${avgLatency.toFixed(0).padStart(16)} |`);
+    }
+  }
+  if (analysisRecords.some(r => r.usageEstimated)) {
+    console.log('\n* Includes counts estimated offline (providers/usage.ts) where the provider reported no usage');
+  }
+
+  // Clusters are one problem with all its repetitions; pairs match the same
+  // problem and repetition across two conditions of one model
+  const clustersFor = (model: string, condition: string, value: (r: AnalysisRecord) => number) => {
+    const clusters = new Map<string, number[]>();
+    for (const r of recordsFor(model, condition)) {
+      clusters.set(r.problemId, [...(clusters.get(r.problemId) ?? []), value(r)]);
+    }
+    return [...clusters.values()];
+  };
 
-  for (const condition of conditions) {
-    const conditionRecords = analysisRecords.filter(r => r.condition === condition);
-    const avgFormat = conditionRecords.reduce((sum, r) => sum + r.formatScore, 0) / conditionRecords.length;
-    const latexPct = (conditionRecords.filter(r => r.hasLatex).length / conditionRecords.length) * 100;
-    const boxedPct = (conditionRecords.filter(r => r.hasBoxedAnswer).length / conditionRecords.length) * 100;
-    const stepsPct = (conditionRecords.filter(r => r.hasSteps).length / conditionRecords.length) * 100;
+  type ConditionIntervals = { accuracy: ConfidenceInterval | null; formatScore: ConfidenceInterval | null; tokens: ConfidenceInterval | null };
+  const intervals: Record<string, Record<string, ConditionIntervals>> = {};
+  for (const model of models) {
+    intervals[model] = {};
+    for (const condition of conditions) {
+      intervals[model][condition] = {
+        accuracy: bootstrapCI(clustersFor(model, condition, r => r.correct ? 1 : 0)),
+        formatScore: bootstrapCI(clustersFor(model, condition, r => r.formatScore)),
+        tokens: bootstrapCI(clustersFor(model, condition, r => r.tokenCount))
+      };
+    }
+  }
 
-    console.log(`| ${condition.padEnd(10)} | ${avgFormat.toFixed(1).padStart(10)} | ${latexPct.toFixed(0).padStart(6)}% | ${boxedPct.toFixed(0).padStart(6)}% | ${stepsPct.toFixed(0).padStart(6)}% |`);
+  const repetitions = Math.max(...analysisRecords.map(r => r.repetition));
+  const formatCI = (ci: ConfidenceInterval | null, scale: number, digits: number) =>
+    ci ? `${(ci.estimate * scale).toFixed(digits)} [${(ci.lower * scale).toFixed(digits)}, ${(ci.upper * scale).toFixed(digits)}]` : 'N/A';
+
+  console.log(`\n=== 95% BOOTSTRAP CONFIDENCE INTERVALS (${repetitions} repetition${repetitions === 1 ? '' : 's'} per cell) ===\n`);
+  console.log(`| ${modelHeader} | Condition  | Accuracy %           | Format Score       | Completion Tokens |`);
+  console.log(`|${modelRule}|------------|----------------------|--------------------|-------------------|`);
+
+  for (const model of models) {
+    for (const condition of conditions) {
+      if (recordsFor(model, condition).length === 0) continue;
+      const ci = intervals[model][condition];
+      console.log(`| ${model.padEnd(modelWidth)} | ${condition.padEnd(10)} | ${formatCI(ci.accuracy, 100, 1).padEnd(20)} | ${formatCI(ci.formatScore, 1, 1).padEnd(18)} | ${formatCI(ci.tokens, 1, 0).padEnd(17)} |`);
+    }
+  }
+  if (repetitions === 1) {
+    console.log('\nOne sample per cell: intervals reflect problem-to-problem variation only. Run experiments/repeated.json for repetitions.');
   }
 
-  console.log('\n=== TOKEN EFFICIENCY BY CONDITION ===\n');
-  console.log('| Condition  | Avg Tokens | Avg Latency (ms) |');
-  console.log('|------------|------------|------------------|');
+  // Paired tests compare problems, not calls: the repetitions of a problem
+  // under one prompt setup are combined first, like the bootstrap's clusters,
+  // so repetitions don't multiply the pair count. A problem counts as correct
+  // when most of its repetitions are.
+  type SetupField = 'promptMode' | 'promptStyle' | 'promptVariant' | 'selector';
+  type PairedCell = { correct: boolean; accuracy: number; formatScore: number; tokens: number };
+  const setupFields: SetupField[] = ['promptMode', 'promptStyle', 'promptVariant', 'selector'];
+  // Problem and prompt setup, leaving out the field a comparison varies
+  const setupKey = (r: AnalysisRecord, varied?: SetupField) =>
+    [r.problemId, ...setupFields.filter(field => field !== varied).map(field => r[field]), r.temperature, r.arrangement].join('|');
+  const pairCells = (recordsA: AnalysisRecord[], recordsB: AnalysisRecord[], varied?: SetupField): Array<[PairedCell, PairedCell]> => {
+    const cells = (records: AnalysisRecord[]) => {
+      const groups = new Map<string, AnalysisRecord[]>();
+      for (const r of records) groups.set(setupKey(r, varied), [...(groups.get(setupKey(r, varied)) ?? []), r]);
+      return new Map([...groups].map(([key, group]): [string, PairedCell] => {
+        const mean = (value: (r: AnalysisRecord) => number) => group.reduce((sum, r) => sum + value(r), 0) / group.length;
+        const accuracy = mean(r => (r.correct ? 1 : 0));
+        return [key, { correct: accuracy > 0.5, accuracy, formatScore: mean(r => r.formatScore), tokens: mean(r => r.tokenCount) }];
+      }));
+    };
+    const [cellsA, cellsB] = [cells(recordsA), cells(recordsB)];
+    return [...cellsA.keys()].filter(key => cellsB.has(key)).map(key => [cellsA.get(key)!, cellsB.get(key)!]);
+  };
 
-  for (const condition of conditions) {
-    const conditionRecords = analysisRecords.filter(r => r.condition === condition);
-    const avgTokens = conditionRecords.reduce((sum, r) => sum + r.tokenCount, 0) / conditionRecords.length;
-    const avgLatency = conditionRecords.reduce((sum, r) => sum + r.latencyMs, 0) / conditionRecords.length;
+  const comparisons: Array<{ model: string; a: string; b: string; mcnemar: McNemarResult; wilcoxon: WilcoxonResult }> = [];
+  for (const model of models) {
+    for (let i = 0; i < conditions.length; i++) {
+      for (let j = i + 1; j < conditions.length; j++) {
+        const [a, b] = [conditions[i], conditions[j]];
+        const matched = pairCells(recordsFor(model, a), recordsFor(model, b));
+        if (matched.length === 0) continue;
 
-    console.log(`| ${condition.padEnd(10)} | ${avgTokens.toFixed(0).padStart(10)} | ${avgLatency.toFixed(0).padStart(16)} |`);
+        comparisons.push({
+          model,
+          a,
+          b,
+          mcnemar: mcnemarTest(matched.map(([ca, cb]) => [ca.correct, cb.correct])),
+          wilcoxon: wilcoxonSignedRank(matched.map(([ca, cb]) => [ca.tokens, cb.tokens]))
+        });
+      }
+    }
   }
+  const mcnemarAdjusted = holmAdjust(comparisons.map(c => c.mcnemar.pValue));
+  const wilcoxonAdjusted = holmAdjust(comparisons.map(c => c.wilcoxon.pValue));
+
+  console.log('\n=== PAIRED TESTS BETWEEN CONDITIONS ===\n');
+  console.log('McNemar on correctness, Wilcoxon signed-rank on completion tokens; p-values Holm-adjusted across comparisons.');
+  console.log('Pairs are problems: repetitions are combined first (correct when most are, mean tokens).\n');
+  console.log(`| ${modelHeader} | Comparison             | Pairs | Only A ✓ | Only B ✓ | McNemar p | Median ΔTokens | Wilcoxon p |`);
+  console.log(`|${modelRule}|------------------------|-------|----------|----------|-----------|----------------|------------|`);
+
+  const formatP = (p: number) => p < 0.001 ? 'p < 0.001' : `p = ${p.toFixed(3)}`;
+  const significant: string[] = [];
+  comparisons.forEach((c, i) => {
+    const label = `${c.a} vs ${c.b}`;
+    const delta = (c.wilcoxon.medianDifference > 0 ? '+' : '') + c.wilcoxon.medianDifference.toFixed(0);
+    const mark = (p: number) => `${p.toFixed(3)}${p < ALPHA ? '*' : ' '}`;
+    console.log(`| ${c.model.padEnd(modelWidth)} | ${label.padEnd(22)} | ${c.mcnemar.pairs.toString().padStart(5)} | ${c.mcnemar.onlyA.toString().padStart(8)} | ${c.mcnemar.onlyB.toString().padStart(8)} | ${mark(mcnemarAdjusted[i]).padStart(9)} | ${delta.padStart(14)} | ${mark(wilcoxonAdjusted[i]).padStart(10)} |`);
+
+    if (mcnemarAdjusted[i] < ALPHA) {
+      significant.push(`${c.model} ${label}: accuracy (${c.mcnemar.onlyA > c.mcnemar.onlyB ? c.a : c.b} better, ${formatP(mcnemarAdjusted[i])})`);
+    }
+    if (wilcoxonAdjusted[i] < ALPHA) {
+      significant.push(`${c.model} ${label}: completion tokens (median ${delta} for ${c.b}, ${formatP(wilcoxonAdjusted[i])})`);
+    }
+  });
+
+  console.log(`\nSignificant at α = ${ALPHA}:`);
+  console.log(significant.length > 0 ? significant.map(s => `  - ${s}`).join('\n') : '  none');
+
+  // Spread of each metric across arrangements of the same example set. Each
+  // arrangement's value is averaged over repetitions first.
+  type SensitivityRow = {
+    model: string;
+    problemId: string;
+    domain: string;
+    condition: string;
+    variation: 'order' | 'leave-one-out';
+    arrangements: number;
+    accuracyRange: number;
+    formatRange: number;
+    formatSd: number;
+    tokensRange: number;
+    tokensSd: number;
+  };
+  const sensitivity: SensitivityRow[] = [];
+
+  if (firstSamples.some(r => r.arrangement !== 'original')) {
+    const spread = (values: number[]) => {
+      const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+      const sd = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+      return { range: Math.max(...values) - Math.min(...values), sd };
+    };
+    const average = (records: AnalysisRecord[], value: (r: AnalysisRecord) => number) =>
+      records.reduce((sum, r) => sum + value(r), 0) / records.length;
+
+    for (const model of models) {
+      for (const problemId of [...new Set(firstSamples.map(r => r.problemId))]) {
+        for (const condition of conditions) {
+          const cell = firstSamples.filter(r => r.model === model && r.problemId === problemId && r.condition === condition);
+          for (const variation of ['order', 'leave-one-out'] as const) {
+            const prefix = variation === 'order' ? 'permutation-' : 'drop-';
+            const arrangements = [...new Set(cell.map(r => r.arrangement))].filter(a => a === 'original' || a.startsWith(prefix));
+            if (arrangements.length < 2) continue;
+
+            const perArrangement = arrangements.map(a => cell.filter(r => r.arrangement === a));
+            const accuracy = spread(perArrangement.map(records => average(records, r => r.correct ? 1 : 0)));
+            const format = spread(perArrangement.map(records => average(records, r => r.formatScore)));
+            const tokens = spread(perArrangement.map(records => average(records, r => r.tokenCount)));
+            sensitivity.push({
+              model,
+              problemId,
+              domain: cell[0].domain,
+              condition,
+              variation,
+              arrangements: arrangements.length,
+              accuracyRange: accuracy.range,
+              formatRange: format.range,
+              formatSd: format.sd,
+              tokensRange: tokens.range,
+              tokensSd: tokens.sd
+            });
+          }
+        }
+      }
+    }
+
+    console.log('\n=== EXAMPLE ORDER SENSITIVITY ===\n');
+    console.log('Spread across arrangements of the same example set: reorderings ("order") and leave-one-out.\n');
+    console.log(`| ${modelHeader} | Problem ID | Condition  | Variation     | Arr. | Acc Range | Format Range (SD) | Tokens Range (SD) |`);
+    console.log(`|${modelRule}|------------|------------|---------------|------|-----------|-------------------|-------------------|`);
+
+    for (const row of sensitivity) {
+      const format = `${row.formatRange.toFixed(1)} (${row.formatSd.toFixed(1)})`;
+      const tokens = `${row.tokensRange.toFixed(0)} (${row.tokensSd.toFixed(0)})`;
+      console.log(`| ${row.model.padEnd(modelWidth)} | ${row.problemId.padEnd(10)} | ${row.condition.padEnd(10)} | ${row.variation.padEnd(13)} | ${row.arrangements.toString().padStart(4)} | ${((row.accuracyRange * 100).toFixed(0) + '%').padStart(9)} | ${format.padStart(17)} | ${tokens.padStart(17)} |`);
+    }
+
+    // Domain rollup: mean spread, and how many example sets flipped correctness somewhere
+    console.log(`\n| ${modelHeader} | Domain    | Variation     | Sets | Flipped | Mean Acc Range | Mean Format Range | Mean Tokens Range |`);
+    console.log(`|${modelRule}|-----------|---------------|------|---------|----------------|-------------------|-------------------|`);
+
+    for (const model of models) {
+      for (const domain of domains) {
+        for (const variation of ['order', 'leave-one-out'] as const) {
+          const rows = sensitivity.filter(r => r.model === model && r.domain === domain && r.variation === variation);
+          if (rows.length === 0) continue;
+          const mean = (value: (r: SensitivityRow) => number) => rows.reduce((sum, r) => sum + value(r), 0) / rows.length;
+          const flipped = rows.filter(r => r.accuracyRange > 0).length;
+          console.log(`| ${model.padEnd(modelWidth)} | ${domain.padEnd(9)} | ${variation.padEnd(13)} | ${rows.length.toString().padStart(4)} | ${flipped.toString().padStart(7)} | ${((mean(r => r.accuracyRange) * 100).toFixed(0) + '%').padStart(14)} | ${mean(r => r.formatRange).toFixed(1).padStart(17)} | ${mean(r => r.tokensRange).toFixed(0).padStart(17)} |`);
+        }
+      }
+    }
+  }
+
+  // Inline vs chat-format few-shot, paired on the same problem and prompt
+  // setup: McNemar on correctness, Wilcoxon on the format score
+  const promptModes: Array<{ model: string; condition: string; inline: { accuracy: number; formatScore: number }; chat: { accuracy: number; formatScore: number }; mcnemar: McNemarResult; wilcoxon: WilcoxonResult; adjustedPValues?: { mcnemar: number; wilcoxon: number } }> = [];
+
+  if (new Set(analysisRecords.map(r => r.promptMode)).size > 1) {
+    const mean = (cells: PairedCell[], value: (c: PairedCell) => number) =>
+      cells.reduce((sum, c) => sum + value(c), 0) / cells.length;
+
+    for (const model of models) {
+      for (const condition of conditions) {
+        const records = recordsFor(model, condition);
+        const matched = pairCells(records.filter(r => r.promptMode === 'inline'), records.filter(r => r.promptMode === 'chat'), 'promptMode');
+        if (matched.length === 0) continue;
+
+        const side = (i: 0 | 1) => ({
+          accuracy: mean(matched.map(pair => pair[i]), c => c.accuracy),
+          formatScore: mean(matched.map(pair => pair[i]), c => c.formatScore)
+        });
+        promptModes.push({
+          model,
+          condition,
+          inline: side(0),
+          chat: side(1),
+          mcnemar: mcnemarTest(matched.map(([a, b]) => [a.correct, b.correct])),
+          wilcoxon: wilcoxonSignedRank(matched.map(([a, b]) => [a.formatScore, b.formatScore]))
+        });
+      }
+    }
+    const modeMcnemar = holmAdjust(promptModes.map(m => m.mcnemar.pValue));
+    const modeWilcoxon = holmAdjust(promptModes.map(m => m.wilcoxon.pValue));
+    promptModes.forEach((m, i) => { m.adjustedPValues = { mcnemar: modeMcnemar[i], wilcoxon: modeWilcoxon[i] }; });
+
+    console.log('\n=== INLINE VS CHAT-FORMAT FEW-SHOT ===\n');
+    console.log('Same problems under both prompt modes; p-values Holm-adjusted across rows (McNemar on correctness, Wilcoxon on format score).\n');
+    console.log(`| ${modelHeader} | Condition  | Pairs | Inline Acc | Chat Acc | McNemar p | Inline Format | Chat Format | Wilcoxon p |`);
+    console.log(`|${modelRule}|------------|-------|------------|----------|-----------|---------------|-------------|------------|`);
+
+    for (const m of promptModes) {
+      const mark = (p: number) => `${p.toFixed(3)}${p < ALPHA ? '*' : ' '}`;
+      const percent = (value: number) => (value * 100).toFixed(1) + '%';
+      console.log(`| ${m.model.padEnd(modelWidth)} | ${m.condition.padEnd(10)} | ${m.mcnemar.pairs.toString().padStart(5)} | ${percent(m.inline.accuracy).padStart(10)} | ${percent(m.chat.accuracy).padStart(8)} | ${mark(m.adjustedPValues!.mcnemar).padStart(9)} | ${m.inline.formatScore.toFixed(1).padStart(13)} | ${m.chat.formatScore.toFixed(1).padStart(11)} | ${mark(m.adjustedPValues!.wilcoxon).padStart(10)} |`);
+    }
+  }
+
+  // Prompting style × shot count: worked vs answer-only examples and
+  // instructions separate what the examples teach from the reasoning asked for.
+  // Each style is paired with 'default' on the same problem and the rest of
+  // the prompt setup.
+  const styles = PROMPT_STYLES.filter(style => analysisRecords.some(r => r.promptStyle === style));
+  const styleGrid: Record<string, Record<string, Record<string, { n: number; accuracy: number; formatScore: number; tokens: number }>>> = {};
+  const promptStyles: Array<{ model: string; condition: string; style: PromptStyle; default: { accuracy: number; tokens: number }; styled: { accuracy: number; tokens: number }; mcnemar: McNemarResult; adjustedPValue?: number }> = [];
+
+  if (styles.length > 1) {
+    const mean = (records: AnalysisRecord[], value: (r: AnalysisRecord) => number) =>
+      records.reduce((sum, r) => sum + value(r), 0) / records.length;
+
+    console.log('\n=== PROMPTING STYLE BY CONDITION ===\n');
+    console.log(`| ${modelHeader} | Style           | ${conditionHeader} |`);
+    console.log(`|${modelRule}|-----------------|${conditionRule}|`);
+    for (const model of models) {
+      styleGrid[model] = {};
+      for (const style of styles) {
+        styleGrid[model][style] = {};
+        const cells = conditions.map(condition => {
+          const records = recordsFor(model, condition).filter(r => r.promptStyle === style);
+          if (records.length === 0) return 'N/A'.padStart(columnWidth(condition));
+          styleGrid[model][style][condition] = {
+            n: records.length,
+            accuracy: mean(records, r => (r.correct ? 1 : 0)),
+            formatScore: mean(records, r => r.formatScore),
+            tokens: mean(records, r => r.tokenCount)
+          };
+          return `${(styleGrid[model][style][condition].accuracy * 100).toFixed(0)}%`.padStart(columnWidth(condition));
+        });
+        console.log(`| ${model.padEnd(modelWidth)} | ${style.padEnd(15)} | ${cells.join(' | ')} |`);
+      }
+    }
+    console.log('(Accuracy; answer-examples equals default at zero-shot, where there are no examples to strip)');
+
+    const meanOf = (cells: PairedCell[], value: (c: PairedCell) => number) =>
+      cells.reduce((sum, c) => sum + value(c), 0) / cells.length;
+    for (const model of models) {
+      for (const condition of conditions) {
+        const records = recordsFor(model, condition);
+        const baseline = records.filter(r => r.promptStyle === 'default');
+        for (const style of styles.filter(s => s !== 'default')) {
+          const matched = pairCells(baseline, records.filter(r => r.promptStyle === style), 'promptStyle');
+          if (matched.length === 0) continue;
+          const side = (i: 0 | 1) => ({
+            accuracy: meanOf(matched.map(pair => pair[i]), c => c.accuracy),
+            tokens: meanOf(matched.map(pair => pair[i]), c => c.tokens)
+          });
+          promptStyles.push({
+            model,
+            condition,
+            style,
+            default: side(0),
+            styled: side(1),
+            mcnemar: mcnemarTest(matched.map(([a, b]) => [a.correct, b.correct]))
+          });
+        }
+      }
+    }
+
+    if (promptStyles.length > 0) {
+      const adjusted = holmAdjust(promptStyles.map(s => s.mcnemar.pValue));
+      promptStyles.forEach((s, i) => { s.adjustedPValue = adjusted[i]; });
+
+      console.log('\nEach style against default on the same problems; McNemar p Holm-adjusted across rows.\n');
+      console.log(`| ${modelHeader} | Condition  | Style           | Pairs | Default Acc | Style Acc | McNemar p | Default Tok | Style Tok |`);
+      console.log(`|${modelRule}|------------|-----------------|-------|-------------|-----------|-----------|-------------|-----------|`);
+      for (const s of promptStyles) {
+        const mark = (p: number) => `${p.toFixed(3)}${p < ALPHA ? '*' : ' '}`;
+        const percent = (value: number) => (value * 100).toFixed(1) + '%';
+        console.log(`| ${s.model.padEnd(modelWidth)} | ${s.condition.padEnd(10)} | ${s.style.padEnd(15)} | ${s.mcnemar.pairs.toString().padStart(5)} | ${percent(s.default.accuracy).padStart(11)} | ${percent(s.styled.accuracy).padStart(9)} | ${mark(s.adjustedPValue!).padStart(9)} | ${s.default.tokens.toFixed(0).padStart(11)} | ${s.styled.tokens.toFixed(0).padStart(9)} |`);
+      }
+    }
+  }
+
+  // Accuracy and format score per setting of one prompt-setup field a run
+  // sweeps, then every two settings paired on the same problems and the rest
+  // of the setup: McNemar on correctness, Wilcoxon on the format score
+  type SetupCell = { n: number; accuracy: number; formatScore: number; tokens: number };
+  type SetupComparison = {
+    model: string;
+    condition: string;
+    a: string;
+    b: string;
+    accuracy: [number, number];
+    formatScore: [number, number];
+    mcnemar: McNemarResult;
+    wilcoxon: WilcoxonResult;
+    adjustedPValues?: { mcnemar: number; wilcoxon: number };
+  };
+  const compareSetups = (field: 'promptVariant' | 'selector', title: string, heading: string, note?: string) => {
+    const byCondition: Record<string, Record<string, Record<string, SetupCell>>> = {};
+    const pairedTests: SetupComparison[] = [];
+    const settings: string[] = [...new Set(analysisRecords.map(r => r[field]))];
+    if (settings.length < 2) return { byCondition, pairedTests };
+
+    const mean = <T>(items: T[], value: (item: T) => number) => items.reduce((sum, item) => sum + value(item), 0) / items.length;
+    const settingWidth = Math.max(heading.length, ...settings.map(s => s.length));
+
+    console.log(`\n=== ${title} ===\n`);
+    if (note) console.log(`${note}\n`);
+    console.log(`| ${modelHeader} | ${heading.padEnd(settingWidth)} | Metric   | ${conditionHeader} |`);
+    console.log(`|${modelRule}|${'-'.repeat(settingWidth + 2)}|----------|${conditionRule}|`);
+    for (const model of models) {
+      byCondition[model] = {};
+      for (const setting of settings) {
+        byCondition[model][setting] = {};
+        for (const condition of conditions) {
+          const records = recordsFor(model, condition).filter(r => r[field] === setting);
+          if (records.length === 0) continue;
+          byCondition[model][setting][condition] = {
+            n: records.length,
+            accuracy: mean(records, r => (r.correct ? 1 : 0)),
+            formatScore: mean(records, r => r.formatScore),
+            tokens: mean(records, r => r.tokenCount)
+          };
+        }
+        for (const metric of ['accuracy', 'format'] as const) {
+          const cells = conditions.map(condition => {
+            const cell = byCondition[model][setting][condition];
+            const text = !cell ? 'N/A' : metric === 'accuracy' ? `${(cell.accuracy * 100).toFixed(0)}%` : cell.formatScore.toFixed(1);
+            return text.padStart(columnWidth(condition));
+          });
+          console.log(`| ${model.padEnd(modelWidth)} | ${setting.padEnd(settingWidth)} | ${metric.padEnd(8)} | ${cells.join(' | ')} |`);
+        }
+      }
+    }
+
+    for (const model of models) {
+      for (const condition of conditions) {
+        const records = recordsFor(model, condition);
+        for (let i = 0; i < settings.length; i++) {
+          for (let j = i + 1; j < settings.length; j++) {
+            const [a, b] = [settings[i], settings[j]];
+            const matched = pairCells(records.filter(r => r[field] === a), records.filter(r => r[field] === b), field);
+            if (matched.length === 0) continue;
+            pairedTests.push({
+              model,
+              condition,
+              a,
+              b,
+              accuracy: [mean(matched, ([ca]) => ca.accuracy), mean(matched, ([, cb]) => cb.accuracy)],
+              formatScore: [mean(matched, ([ca]) => ca.formatScore), mean(matched, ([, cb]) => cb.formatScore)],
+              mcnemar: mcnemarTest(matched.map(([ca, cb]) => [ca.correct, cb.correct])),
+              wilcoxon: wilcoxonSignedRank(matched.map(([ca, cb]) => [ca.formatScore, cb.formatScore]))
+            });
+          }
+        }
+      }
+    }
+    if (pairedTests.length === 0) return { byCondition, pairedTests };
+
+    const mcnemarP = holmAdjust(pairedTests.map(t => t.mcnemar.pValue));
+    const wilcoxonP = holmAdjust(pairedTests.map(t => t.wilcoxon.pValue));
+    pairedTests.forEach((t, i) => { t.adjustedPValues = { mcnemar: mcnemarP[i], wilcoxon: wilcoxonP[i] }; });
+
+    const labelWidth = Math.max(10, ...pairedTests.map(t => `${t.a} vs ${t.b}`.length));
+    const mark = (p: number) => `${p.toFixed(3)}${p < ALPHA ? '*' : ' '}`;
+    const percent = (value: number) => (value * 100).toFixed(1) + '%';
+    console.log('\nEvery two settings on the same problems; p-values Holm-adjusted across rows (McNemar on correctness, Wilcoxon on format score).\n');
+    console.log(`| ${modelHeader} | Condition  | ${'Comparison'.padEnd(labelWidth)} | Pairs | A Acc  | B Acc  | McNemar p | A Format | B Format | Wilcoxon p |`);
+    console.log(`|${modelRule}|------------|${'-'.repeat(labelWidth + 2)}|-------|--------|--------|-----------|----------|----------|------------|`);
+    for (const t of pairedTests) {
+      console.log(`| ${t.model.padEnd(modelWidth)} | ${t.condition.padEnd(10)} | ${`${t.a} vs ${t.b}`.padEnd(labelWidth)} | ${t.mcnemar.pairs.toString().padStart(5)} | ${percent(t.accuracy[0]).padStart(6)} | ${percent(t.accuracy[1]).padStart(6)} | ${mark(t.adjustedPValues!.mcnemar).padStart(9)} | ${t.formatScore[0].toFixed(1).padStart(8)} | ${t.formatScore[1].toFixed(1).padStart(8)} | ${mark(t.adjustedPValues!.wilcoxon).padStart(10)} |`);
+    }
+    return { byCondition, pairedTests };
+  };
+
+  const exampleSelectors = compareSetups('selector', 'EXAMPLE SELECTOR BY CONDITION', 'Selector');
+
+  // Template ablations (experiments/template-ablation.json) vary only the
+  // prompt template; results from older template versions are labelled as such
+  const templateVersions = [...new Set(analysisRecords.map(r => `${r.promptVariant}@${r.templateVersion ?? 'unversioned'}`))];
+  const promptVariants = compareSetups('promptVariant', 'PROMPT TEMPLATE VARIANT BY CONDITION', 'Variant', `Templates: ${templateVersions.join(', ')}`);
+
+  // A cell succeeds when most of its repetitions are correct
+  const cellOutcome = (model: string, condition: string, problemId: string) => {
+    const records = recordsFor(model, condition).filter(r => r.problemId === problemId);
+    const correctCount = records.filter(r => r.correct).length;
+    return records.length === 0 ? null : { correct: correctCount, total: records.length, success: correctCount * 2 > records.length };
+  };
+  const outcomeLabel = (outcome: { correct: number; total: number; success: boolean }) =>
+    `${outcome.success ? '✓' : '✗'}${outcome.total > 1 ? ` ${outcome.correct}/${outcome.total}` : ''}`;
 
   console.log('\n=== DETAILED PROBLEM RESULTS ===\n');
-  console.log('| Problem ID | Zero-Shot | 1-Shot | 3-Shot | 5-Shot |');
-  console.log('|------------|-----------|--------|--------|--------|');
+  console.log(`| Problem ID | ${modelHeader} | ${conditionHeader} |`);
+  console.log(`|------------|${modelRule}|${conditionRule}|`);
 
   const problemIds = [...new Set(analysisRecords.map(r => r.problemId))];
   for (const problemId of problemIds) {
-    const row = [problemId.padEnd(10)];
-    for (const condition of conditions) {
-      const record = analysisRecords.find(r => r.problemId === problemId && r.condition === condition);
-      const status = record?.correct ? '✓' : '✗';
-      const score = record ? `${(record.correctnessScore * 100).toFixed(0)}%` : 'N/A';
-      row.push(`${status} ${score}`.padStart(condition === 'zero-shot' ? 9 : 6));
+    for (const model of models) {
+      const row = [problemId.padEnd(10), model.padEnd(modelWidth)];
+      for (const condition of conditions) {
+        const records = recordsFor(model, condition).filter(r => r.problemId === problemId);
+        if (records.length > 1) {
+          // Repeated samples: how many were correct
+          row.push(`${records.filter(r => r.correct).length}/${records.length}`.padStart(columnWidth(condition)));
+          continue;
+        }
+        const record = records[0];
+        const status = record?.correct ? '✓' : '✗';
+        const score = record ? `${(record.correctnessScore * 100).toFixed(0)}%` : 'N/A';
+        row.push(`${status} ${score}`.padStart(columnWidth(condition)));
+      }
+      console.log(`| ${row.join(' | ')} |`);
     }
-    console.log(`| ${row.join(' | ')} |`);
   }
 
-  // Save detailed analysis
+  // Item analysis (analysis/items.ts): each model under one prompting setup is
+  // a respondent; ceiling and floor items cannot move between conditions
+  const labels: Record<string, Difficulty> = Object.fromEntries(DATASET.problems.map(p => [p.id, p.difficulty]));
+  const itemResponses = (records: AnalysisRecord[]): ItemResponse[] => records
+    .filter(r => labels[r.problemId] !== undefined)
+    .map(r => ({
+      item: r.problemId,
+      respondent: [r.model, r.condition, r.promptMode, r.promptStyle, r.promptVariant, r.selector, r.temperature, r.arrangement, r.repetition].join('|'),
+      correct: r.correct
+    }));
+  const items = analyzeItems(itemResponses(analysisRecords));
+  const itemsByModel = new Map(models.map(model => [model, new Map(analyzeItems(itemResponses(recordsFor(model))).map(i => [i.item, i]))]));
+  const calibration = calibrateDifficulty(items, labels);
+  const respondents = new Set(itemResponses(analysisRecords).map(r => r.respondent)).size;
+
+  const itemFlags = (item: ItemStatistics) => {
+    const flags: string[] = [];
+    const ceilingModels = models.filter(model => itemsByModel.get(model)!.get(item.item)?.ceiling);
+    if (item.ceiling) flags.push('ceiling');
+    else if (ceilingModels.length > 0) flags.push(`ceiling for ${ceilingModels.join(', ')}`);
+    if (item.floor) flags.push('floor');
+    if (item.discrimination !== null && item.discrimination < LOW_DISCRIMINATION) {
+      flags.push(item.discrimination < 0 ? 'negative discrimination' : 'low discrimination');
+    }
+    return flags;
+  };
+
+  console.log(`\n=== ITEM ANALYSIS (${respondents} respondents: model × condition × prompt setup) ===\n`);
+  const modelColumns = models.map(m => m.padStart(Math.max(6, m.length))).join(' | ');
+  const modelColumnRule = models.map(m => '-'.repeat(Math.max(6, m.length) + 2)).join('|');
+  console.log(`| Problem ID | Label  | Observed | Responses | p-value | Discrimination | ${modelColumns} | Flags |`);
+  console.log(`|------------|--------|----------|-----------|---------|----------------|${modelColumnRule}|-------|`);
+  for (const item of items) {
+    const byModel = models.map(model => {
+      const modelItem = itemsByModel.get(model)!.get(item.item);
+      return (modelItem ? modelItem.pValue.toFixed(2) : 'N/A').padStart(Math.max(6, model.length));
+    });
+    const discrimination = item.discrimination === null ? '-' : item.discrimination.toFixed(2);
+    console.log(`| ${item.item.padEnd(10)} | ${labels[item.item].padEnd(6)} | ${observedDifficulty(item.pValue).padEnd(8)} | ${item.responses.toString().padStart(9)} | ${item.pValue.toFixed(2).padStart(7)} | ${discrimination.padStart(14)} | ${byModel.join(' | ')} | ${itemFlags(item).join(', ') || '-'} |`);
+  }
+  console.log(`(p-value: share correct, higher is easier; observed bands: ${OBSERVED_BANDS.map(b => `${b.difficulty} ≥ ${b.minPValue.toFixed(2)}`).join(', ')}; discrimination: item-rest correlation)`);
+
+  console.log('\nHand-labelled vs observed difficulty:\n');
+  console.log('| Label  | Items | Mean p | Observed Easy | Observed Medium | Observed Hard |');
+  console.log('|--------|-------|--------|---------------|-----------------|---------------|');
+  for (const band of OBSERVED_BANDS) {
+    const row = calibration.byLabel[band.difficulty];
+    if (row.items === 0) continue;
+    console.log(`| ${band.difficulty.padEnd(6)} | ${row.items.toString().padStart(5)} | ${row.meanPValue!.toFixed(2).padStart(6)} | ${row.observed.easy.toString().padStart(13)} | ${row.observed.medium.toString().padStart(15)} | ${row.observed.hard.toString().padStart(13)} |`);
+  }
+  const spearman = calibration.spearman === null ? 'undefined' : calibration.spearman.toFixed(2);
+  console.log(`\nLabels match the observed band for ${calibration.items - calibration.mislabeled.length}/${calibration.items} problems; Spearman ρ (label vs 1 - p) = ${spearman}`);
+  for (const m of calibration.mislabeled) {
+    console.log(`  ${m.item}: labelled ${m.labelled}, observed ${m.observed} (p = ${m.pValue.toFixed(2)})`);
+  }
+
+  const ceilingItems = items.filter(i => i.ceiling).map(i => i.item);
+  const floorItems = items.filter(i => i.floor).map(i => i.item);
+  if (ceilingItems.length > 0) console.log(`\nCeiling items (right in every response; no signal for few-shot comparisons): ${ceilingItems.join(', ')}`);
+  if (floorItems.length > 0) console.log(`Floor items (wrong in every response): ${floorItems.join(', ')}`);
+
+  // Problems where, under the same condition, one model succeeded and the other failed
+  const headToHead: Array<{ modelA: string; modelB: string; condition: string; problemId: string; winner: string; outcomes: Record<string, { correct: number; total: number }> }> = [];
+  for (let i = 0; i < models.length; i++) {
+    for (let j = i + 1; j < models.length; j++) {
+      const [modelA, modelB] = [models[i], models[j]];
+      console.log(`\n=== HEAD-TO-HEAD: ${modelA} vs ${modelB} ===\n`);
+
+      const rows: string[] = [];
+      for (const condition of conditions) {
+        for (const problemId of problemIds) {
+          const [outcomeA, outcomeB] = [cellOutcome(modelA, condition, problemId), cellOutcome(modelB, condition, problemId)];
+          if (!outcomeA || !outcomeB || outcomeA.success === outcomeB.success) continue;
+
+          const winner = outcomeA.success ? modelA : modelB;
+          headToHead.push({
+            modelA,
+            modelB,
+            condition,
+            problemId,
+            winner,
+            outcomes: { [modelA]: { correct: outcomeA.correct, total: outcomeA.total }, [modelB]: { correct: outcomeB.correct, total: outcomeB.total } }
+          });
+          rows.push(`| ${condition.padEnd(10)} | ${problemId.padEnd(10)} | ${outcomeLabel(outcomeA).padEnd(modelWidth)} | ${outcomeLabel(outcomeB).padEnd(modelWidth)} |`);
+        }
+      }
+
+      if (rows.length === 0) {
+        console.log('No problem separates the two models under any condition.');
+        continue;
+      }
+      console.log(`| Condition  | Problem ID | ${modelA.padEnd(modelWidth)} | ${modelB.padEnd(modelWidth)} |`);
+      console.log(`|------------|------------|${modelRule}|${modelRule}|`);
+      rows.forEach(row => console.log(row));
+
+      const wins = (model: string) => headToHead.filter(h => h.modelA === modelA && h.modelB === modelB && h.winner === model).length;
+      console.log(`\n${modelA} only: ${wins(modelA)}, ${modelB} only: ${wins(modelB)}`);
+    }
+  }
+
+  // Self-consistency votes (graders/voting.ts): one per cell and repetition of
+  // a voting run. Single-sample accuracy averages every sample, i.e. what one
+  // call scores; the extra cost is everything past the first sample. Votes
+  // whose first sample failed have no single-call baseline and are counted
+  // apart from the token and cost comparison.
+  interface VoteRecord {
+    problemId: string;
+    model: string;
+    condition: string;
+    promptMode: string;
+    promptStyle: PromptStyle;
+    arrangement: string;
+    repetition: number;
+    samples: number; // Successful samples voted on
+    majorityAnswer: string | null;
+    agreement: number;
+    clusters: number;
+    correct: boolean; // The majority answer's grade
+    singleAccuracy: number;
+    tokens: number; // Prompt and completion tokens over all samples
+    firstSampleTokens: number | null; // null when sample 1 failed
+    costUsd: number | null;
+    firstSampleCostUsd: number | null; // null when sample 1 failed or the model has no pricing
+  }
+  const votes: VoteRecord[] = [];
+  const voteGroups = new Map<string, number[]>();
+  allRecords.forEach((r, i) => {
+    if (results[i].samples === undefined || results[i].response.startsWith('ERROR') || r.arrangement !== 'original') return;
+    const key = [r.model, r.condition, r.problemId, r.promptMode, r.promptStyle, r.promptVariant, r.selector, r.temperature, r.arrangement, r.repetition].join('|');
+    voteGroups.set(key, [...(voteGroups.get(key) ?? []), i]);
+  });
+
+  for (const indices of voteGroups.values()) {
+    indices.sort((a, b) => allRecords[a].sample - allRecords[b].sample);
+    const records = indices.map(i => allRecords[i]);
+    const problem = DATASET.problems.find(p => p.id === records[0].problemId);
+    if (!problem) continue;
+    const vote = voteResponses(problem, indices.map(i => results[i].response));
+    const tokensOf = (r: AnalysisRecord) => r.promptTokens + r.tokenCount;
+    const priced = records.every(r => r.costUsd !== null);
+    const firstSample = records.find(r => r.sample === 1);
+    const { problemId, model, condition, promptMode, promptStyle, arrangement, repetition } = records[0];
+    votes.push({
+      problemId,
+      model,
+      condition,
+      promptMode,
+      promptStyle,
+      arrangement,
+      repetition,
+      samples: records.length,
+      majorityAnswer: vote.majorityAnswer,
+      agreement: vote.agreement,
+      clusters: vote.clusters.length,
+      correct: records[vote.majority].correct,
+      singleAccuracy: records.filter(r => r.correct).length / records.length,
+      tokens: records.reduce((sum, r) => sum + tokensOf(r), 0),
+      firstSampleTokens: firstSample ? tokensOf(firstSample) : null,
+      costUsd: priced ? records.reduce((sum, r) => sum + r.costUsd!, 0) : null,
+      firstSampleCostUsd: firstSample?.costUsd ?? null
+    });
+  }
+
+  // Token and cost comparisons use only votes with a first sample; the rest are counted as firstSampleFailed
+  type VotingRow = { votes: number; firstSampleFailed: number; singleAccuracy: number; votedAccuracy: number; agreement: number; tokensPerCall: number | null; tokensPerVote: number | null; extraCostUsd: number | null };
+  const votingSummary: Record<string, Record<string, Record<string, VotingRow>>> = {};
+  const hardVoting: Record<string, Record<string, Record<string, { single: number; voted: number; votes: number }>>> = {};
+  if (votes.length > 0) {
+    const mean = (list: VoteRecord[], value: (v: VoteRecord) => number) => list.reduce((sum, v) => sum + value(v), 0) / list.length;
+    const voteStyles = PROMPT_STYLES.filter(style => votes.some(v => v.promptStyle === style));
+
+    console.log('\n=== SELF-CONSISTENCY VOTING ===\n');
+    console.log(`| ${modelHeader} | Style           | Condition  | Votes | S1 Failed | Single Acc | Voted Acc |   Gain | Agreement | Tok/Call | Tok/Vote | Extra Cost (USD) |`);
+    console.log(`|${modelRule}|-----------------|------------|-------|-----------|------------|-----------|--------|-----------|----------|----------|------------------|`);
+    for (const model of models) {
+      votingSummary[model] = {};
+      for (const style of voteStyles) {
+        votingSummary[model][style] = {};
+        for (const condition of conditions) {
+          const list = votes.filter(v => v.model === model && v.promptStyle === style && v.condition === condition);
+          if (list.length === 0) continue;
+          const baselined = list.filter(v => v.firstSampleTokens !== null);
+          const priced = baselined.length > 0 && baselined.every(v => v.costUsd !== null && v.firstSampleCostUsd !== null);
+          const row: VotingRow = {
+            votes: list.length,
+            firstSampleFailed: list.length - baselined.length,
+            singleAccuracy: mean(list, v => v.singleAccuracy),
+            votedAccuracy: mean(list, v => (v.correct ? 1 : 0)),
+            agreement: mean(list, v => v.agreement),
+            tokensPerCall: baselined.length > 0 ? mean(baselined, v => v.firstSampleTokens!) : null,
+            tokensPerVote: baselined.length > 0 ? mean(baselined, v => v.tokens) : null,
+            extraCostUsd: priced ? baselined.reduce((sum, v) => sum + v.costUsd! - v.firstSampleCostUsd!, 0) : null
+          };
+          votingSummary[model][style][condition] = row;
+
+          const gain = (row.votedAccuracy - row.singleAccuracy) * 100;
+          const tokens = (value: number | null) => value === null ? 'N/A' : value.toFixed(0);
+          const extra = baselined.length === 0 ? 'N/A' : row.extraCostUsd === null ? 'no pricing' : '$' + row.extraCostUsd.toFixed(4);
+          console.log(`| ${model.padEnd(modelWidth)} | ${style.padEnd(15)} | ${condition.padEnd(10)} | ${row.votes.toString().padStart(5)} | ${row.firstSampleFailed.toString().padStart(9)} | ${(row.singleAccuracy * 100).toFixed(1).padStart(9)}% | ${(row.votedAccuracy * 100).toFixed(1).padStart(8)}% | ${((gain >= 0 ? '+' : '') + gain.toFixed(1)).padStart(6)} | ${(row.agreement * 100).toFixed(0).padStart(8)}% | ${tokens(row.tokensPerCall).padStart(8)} | ${tokens(row.tokensPerVote).padStart(8)} | ${extra.padStart(16)} |`);
+        }
+      }
+    }
+    if (votes.some(v => v.firstSampleTokens === null)) {
+      console.log('(S1 Failed: votes whose first sample errored; they are left out of Tok/Call, Tok/Vote and Extra Cost)');
+    }
+
+    // Whether few-shot plus voting beats zero-shot plus voting where single calls struggle
+    const hard = new Set(DATASET.problems.filter(p => p.difficulty === 'hard').map(p => p.id));
+    const hardVotes = votes.filter(v => hard.has(v.problemId));
+    if (hardVotes.length > 0) {
+      console.log(`\nHard problems (${[...hard].filter(id => hardVotes.some(v => v.problemId === id)).join(', ')}):\n`);
+      console.log(`| ${modelHeader} | Style           | Accuracy | ${conditionHeader} |`);
+      console.log(`|${modelRule}|-----------------|----------|${conditionRule}|`);
+      for (const model of models) {
+        hardVoting[model] = {};
+        for (const style of voteStyles) {
+          hardVoting[model][style] = {};
+          for (const condition of conditions) {
+            const list = hardVotes.filter(v => v.model === model && v.promptStyle === style && v.condition === condition);
+            if (list.length > 0) hardVoting[model][style][condition] = { single: mean(list, v => v.singleAccuracy), voted: mean(list, v => (v.correct ? 1 : 0)), votes: list.length };
+          }
+          if (Object.keys(hardVoting[model][style]).length === 0) continue;
+          for (const kind of ['single', 'voted'] as const) {
+            const cells = conditions.map(c => {
+              const row = hardVoting[model][style][c];
+              return (row ? (row[kind] * 100).toFixed(0) + '%' : 'N/A').padStart(columnWidth(c));
+            });
+            console.log(`| ${model.padEnd(modelWidth)} | ${style.padEnd(15)} | ${kind.padEnd(8)} | ${cells.join(' | ')} |`);
+          }
+        }
+      }
+    }
+  }
+
+  // Save detailed analysis; every summary section is keyed by model first
   const analysisOutput = {
     summary: {
       totalExperiments: results.length,
-      byCondition: {} as Record<string, { correct: number; total: number; accuracy: number; avgScore: number; avgFormat: number; avgTokens: number; avgLatency: number }>,
-      byDomain: {} as Record<string, Record<string, { correct: number; total: number; accuracy: number }>>
+      models,
+      byCondition: {} as Record<string, Record<string, {
+        correct: number;
+        total: number;
+        accuracy: number;
+        avgScore: number;
+        avgFormat: number;
+        avgTokens: number;
+        avgPromptTokens: number;
+        totalCost: number;
+        usageEstimated: boolean;
+        avgLatency: number;
+      }>>,
+      // Model × domain × condition cube
+      byDomain: {} as Record<string, Record<string, Record<string, { correct: number; total: number; accuracy: number }>>>,
+      extraction: extractionSummary,
+      formatStructure: structureSummary,
+      formatChecklist: checklistSummary,
+      exampleOverlap: overlapSummary,
+      confidenceIntervals: intervals,
+      pairedTests: comparisons.map((c, i) => ({
+        ...c,
+        mcnemar: { ...c.mcnemar, adjustedPValue: mcnemarAdjusted[i] },
+        wilcoxon: { ...c.wilcoxon, adjustedPValue: wilcoxonAdjusted[i] }
+      })),
+      headToHead,
+      sensitivity,
+      promptModes,
+      promptStyles: { byCondition: styleGrid, pairedTests: promptStyles },
+      exampleSelectors,
+      promptVariants: { ...promptVariants, templateVersions },
+      itemAnalysis: {
+        respondents,
+        items: items.map(item => ({
+          ...item,
+          label: labels[item.item],
+          observed: observedDifficulty(item.pValue),
+          byModel: Object.fromEntries(models.flatMap(model => {
+            const modelItem = itemsByModel.get(model)!.get(item.item);
+            return modelItem ? [[model, { pValue: modelItem.pValue, discrimination: modelItem.discrimination, ceiling: modelItem.ceiling }]] : [];
+          })),
+          flags: itemFlags(item)
+        })),
+        calibration,
+        ceiling: ceilingItems,
+        floor: floorItems
+      },
+      voting: { byCondition: votingSummary, hardProblems: hardVoting }
     },
-    detailedRecords: analysisRecords
+    votes,
+    detailedRecords: allRecords
   };
 
-  for (const condition of conditions) {
-    const records = analysisRecords.filter(r => r.condition === condition);
-    const correctCount = records.filter(r => r.correct).length;
-    analysisOutput.summary.byCondition[condition] = {
-      correct: correctCount,
-      total: records.length,
-      accuracy: correctCount / records.length,
-      avgScore: records.reduce((sum, r) => sum + r.correctnessScore, 0) / records.length,
-      avgFormat: records.reduce((sum, r) => sum + r.formatScore, 0) / records.length,
-      avgTokens: records.reduce((sum, r) => sum + r.tokenCount, 0) / records.length,
-      avgLatency: records.reduce((sum, r) => sum + r.latencyMs, 0) / records.length
-    };
-  }
-
-  for (const domain of domains) {
-    analysisOutput.summary.byDomain[domain] = {};
+  for (const model of models) {
+    analysisOutput.summary.byCondition[model] = {};
     for (const condition of conditions) {
-      const records = analysisRecords.filter(r => r.domain === domain && r.condition === condition);
+      const records = recordsFor(model, condition);
+      if (records.length === 0) continue;
       const correctCount = records.filter(r => r.correct).length;
-      analysisOutput.summary.byDomain[domain][condition] = {
+      analysisOutput.summary.byCondition[model][condition] = {
         correct: correctCount,
         total: records.length,
-        accuracy: records.length > 0 ? correctCount / records.length : 0
+        accuracy: correctCount / records.length,
+        avgScore: records.reduce((sum, r) => sum + r.correctnessScore, 0) / records.length,
+        avgFormat: records.reduce((sum, r) => sum + r.formatScore, 0) / records.length,
+        avgTokens: records.reduce((sum, r) => sum + r.tokenCount, 0) / records.length,
+        avgPromptTokens: records.reduce((sum, r) => sum + r.promptTokens, 0) / records.length,
+        totalCost: records.reduce((sum, r) => sum + (r.costUsd ?? 0), 0),
+        usageEstimated: records.some(r => r.usageEstimated),
+        avgLatency: records.reduce((sum, r) => sum + r.latencyMs, 0) / records.length
       };
     }
+
+    analysisOutput.summary.byDomain[model] = {};
+    for (const domain of domains) {
+      analysisOutput.summary.byDomain[model][domain] = {};
+      for (const condition of conditions) {
+        const records = recordsFor(model, condition).filter(r => r.domain === domain);
+        const correctCount = records.filter(r => r.correct).length;
+        analysisOutput.summary.byDomain[model][domain][condition] = {
+          correct: correctCount,
+          total: records.length,
+          accuracy: records.length > 0 ? correctCount / records.length : 0
+        };
+      }
+    }
   }
 
-  const outputPath = path.join(RESULTS_DIR, 'detailed-analysis.json');
+  const outputPath = path.join(resultsDir, 'detailed-analysis.json');
   fs.writeFileSync(outputPath, JSON.stringify(analysisOutput, null, 2));
   console.log(`\nDetailed analysis saved to: ${outputPath}`);
 
   return analysisOutput;
 }
 
-analyzeResults();
+analyzeResults().catch(console.error);
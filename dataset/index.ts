@@ -0,0 +1,305 @@
+/**
+ * Problem Dataset
+ *
+ * Loads the problem bank, reference answers, grading specs and few-shot
+ * example pools from the JSON files in this directory. Everything is checked
+ * by a hand-written schema validator and hashed; the combined hash must match
+ * the one pinned in manifest.json, so any edit to the data forces a version bump.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseEquation } from '../graders/chemistry';
+import { parseUnit, QuantitySpec } from '../graders/quantities';
+import { RubricSpec } from '../graders/rubric';
+
+export const DATASET_DIR = __dirname;
+
+export type Domain = 'math' | 'physics' | 'chemistry' | 'biology';
+export const DOMAINS: Domain[] = ['math', 'physics', 'chemistry', 'biology'];
+
+export type GradingSpec =
+  | { method: 'math' } // Symbolic/numeric equivalence against referenceAnswer
+  | ({ method: 'quantities' } & QuantitySpec)
+  | { method: 'equation'; equation: string }
+  | ({ method: 'rubric' } & RubricSpec);
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export interface Problem {
+  id: string;
+  domain: Domain;
+  difficulty: Difficulty;
+  answerType: 'exact' | 'steps' | 'explanation';
+  prompt: string;
+  referenceAnswer: string;
+  grading: GradingSpec;
+  contentHash: string; // Computed at load time, not stored in the file
+}
+
+export interface FewShotExample {
+  id: string;
+  difficulty: Difficulty; // Used by the difficulty-matched example selector
+  problem: string;
+  solution: string;
+  contentHash: string; // Computed at load time, not stored in the file
+}
+
+export interface DatasetManifest {
+  name: string;
+  version: string;
+  contentHash: string;
+}
+
+export interface Dataset {
+  name: string;
+  version: string;
+  contentHash: string;
+  problems: Problem[];
+  examples: Record<Domain, FewShotExample[]>;
+}
+
+export class DatasetValidationError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid dataset:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+  }
+}
+
+// ============================================================================
+// HASHING
+// ============================================================================
+
+// JSON with sorted keys, so hashes don't depend on property order in the files
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonicalJson((value as any)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function hashContent(value: unknown): string {
+  return `sha256:${createHash('sha256').update(canonicalJson(value)).digest('hex')}`;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+const ANSWER_TYPES = ['exact', 'steps', 'explanation'];
+const GRADING_METHODS = ['math', 'quantities', 'equation', 'rubric'];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+function validateRegex(pattern: unknown, where: string, issues: string[]) {
+  if (!isNonEmptyString(pattern)) {
+    issues.push(`${where}: expected a non-empty regex string`);
+    return;
+  }
+  try {
+    new RegExp(pattern, 'i');
+  } catch (error: any) {
+    issues.push(`${where}: invalid regex (${error.message})`);
+  }
+}
+
+function validateGrading(grading: unknown, where: string, issues: string[]) {
+  if (!isObject(grading) || !GRADING_METHODS.includes(grading.method)) {
+    issues.push(`${where}.method: expected one of ${GRADING_METHODS.join(', ')}`);
+    return;
+  }
+
+  switch (grading.method) {
+    case 'quantities':
+      if (typeof grading.relativeTolerance !== 'number' || grading.relativeTolerance <= 0) {
+        issues.push(`${where}.relativeTolerance: expected a positive number`);
+      }
+      if (!Array.isArray(grading.quantities) || grading.quantities.length === 0) {
+        issues.push(`${where}.quantities: expected a non-empty array`);
+        return;
+      }
+      grading.quantities.forEach((quantity: unknown, i: number) => {
+        const at = `${where}.quantities[${i}]`;
+        if (!isObject(quantity)) {
+          issues.push(`${at}: expected an object`);
+          return;
+        }
+        if (!isNonEmptyString(quantity.name)) issues.push(`${at}.name: expected a non-empty string`);
+        if (!Array.isArray(quantity.labels) || !quantity.labels.every(isNonEmptyString)) {
+          issues.push(`${at}.labels: expected an array of strings`);
+        }
+        if (typeof quantity.value !== 'number' || !isFinite(quantity.value)) issues.push(`${at}.value: expected a number`);
+        if (!isNonEmptyString(quantity.unit) || !parseUnit(quantity.unit)) issues.push(`${at}.unit: unknown unit "${quantity.unit}"`);
+      });
+      return;
+
+    case 'equation':
+      if (!isNonEmptyString(grading.equation)) {
+        issues.push(`${where}.equation: expected a non-empty string`);
+        return;
+      }
+      try {
+        parseEquation(grading.equation);
+      } catch (error: any) {
+        issues.push(`${where}.equation: ${error.message}`);
+      }
+      return;
+
+    case 'rubric':
+      if (typeof grading.passThreshold !== 'number' || grading.passThreshold <= 0 || grading.passThreshold > 1) {
+        issues.push(`${where}.passThreshold: expected a number in (0, 1]`);
+      }
+      if (!Array.isArray(grading.items) || grading.items.length === 0) {
+        issues.push(`${where}.items: expected a non-empty array`);
+        return;
+      }
+      grading.items.forEach((item: unknown, i: number) => {
+        const at = `${where}.items[${i}]`;
+        if (!isObject(item)) {
+          issues.push(`${at}: expected an object`);
+          return;
+        }
+        if (!isNonEmptyString(item.id)) issues.push(`${at}.id: expected a non-empty string`);
+        if (!isNonEmptyString(item.description)) issues.push(`${at}.description: expected a non-empty string`);
+        if (typeof item.weight !== 'number' || item.weight <= 0) issues.push(`${at}.weight: expected a positive number`);
+        if (item.match !== undefined && item.match !== 'any' && item.match !== 'all') issues.push(`${at}.match: expected "any" or "all"`);
+        if (!Array.isArray(item.patterns) || item.patterns.length === 0) {
+          issues.push(`${at}.patterns: expected a non-empty array`);
+        } else {
+          item.patterns.forEach((pattern: unknown, j: number) => validateRegex(pattern, `${at}.patterns[${j}]`, issues));
+        }
+        (Array.isArray(item.misconceptions) ? item.misconceptions : []).forEach((m: unknown, j: number) => {
+          if (!isObject(m) || !isNonEmptyString(m.description)) issues.push(`${at}.misconceptions[${j}].description: expected a non-empty string`);
+          validateRegex(isObject(m) ? m.pattern : undefined, `${at}.misconceptions[${j}].pattern`, issues);
+        });
+      });
+      return;
+  }
+}
+
+function validateProblems(problems: unknown, issues: string[]) {
+  if (!Array.isArray(problems)) {
+    issues.push('problems.json: expected an array of problems');
+    return;
+  }
+
+  const seen = new Set<string>();
+  problems.forEach((problem: unknown, i: number) => {
+    const where = `problems[${i}]`;
+    if (!isObject(problem)) {
+      issues.push(`${where}: expected an object`);
+      return;
+    }
+
+    if (!isNonEmptyString(problem.id)) issues.push(`${where}.id: expected a non-empty string`);
+    else if (seen.has(problem.id)) issues.push(`${where}.id: duplicate id "${problem.id}"`);
+    else seen.add(problem.id);
+
+    if (!DOMAINS.includes(problem.domain)) issues.push(`${where}.domain: expected one of ${DOMAINS.join(', ')}`);
+    if (!DIFFICULTIES.includes(problem.difficulty)) issues.push(`${where}.difficulty: expected one of ${DIFFICULTIES.join(', ')}`);
+    if (!ANSWER_TYPES.includes(problem.answerType)) issues.push(`${where}.answerType: expected one of ${ANSWER_TYPES.join(', ')}`);
+    if (!isNonEmptyString(problem.prompt)) issues.push(`${where}.prompt: expected a non-empty string`);
+    if (!isNonEmptyString(problem.referenceAnswer)) issues.push(`${where}.referenceAnswer: expected a non-empty string`);
+    validateGrading(problem.grading, `${where}.grading`, issues);
+  });
+}
+
+function validateExamples(examples: unknown, issues: string[]) {
+  if (!isObject(examples)) {
+    issues.push('examples.json: expected an object keyed by domain');
+    return;
+  }
+
+  const seen = new Set<string>();
+  for (const domain of DOMAINS) {
+    const pool = examples[domain];
+    if (!Array.isArray(pool)) {
+      issues.push(`examples.${domain}: expected an array of examples`);
+      continue;
+    }
+    pool.forEach((example: unknown, i: number) => {
+      const where = `examples.${domain}[${i}]`;
+      if (!isObject(example)) {
+        issues.push(`${where}: expected an object`);
+        return;
+      }
+
+      if (!isNonEmptyString(example.id)) issues.push(`${where}.id: expected a non-empty string`);
+      else if (seen.has(example.id)) issues.push(`${where}.id: duplicate id "${example.id}"`);
+      else seen.add(example.id);
+
+      if (!DIFFICULTIES.includes(example.difficulty as string)) issues.push(`${where}.difficulty: expected one of ${DIFFICULTIES.join(', ')}`);
+      if (!isNonEmptyString(example.problem)) issues.push(`${where}.problem: expected a non-empty string`);
+      if (!isNonEmptyString(example.solution)) issues.push(`${where}.solution: expected a non-empty string`);
+    });
+  }
+
+  for (const key of Object.keys(examples)) {
+    if (!DOMAINS.includes(key as Domain)) issues.push(`examples.${key}: unknown domain`);
+  }
+}
+
+function validateManifest(manifest: unknown, issues: string[]) {
+  if (!isObject(manifest)) {
+    issues.push('manifest.json: expected an object');
+    return;
+  }
+  if (!isNonEmptyString(manifest.name)) issues.push('manifest.name: expected a non-empty string');
+  if (!isNonEmptyString(manifest.version) || !/^\d+\.\d+\.\d+$/.test(manifest.version)) {
+    issues.push('manifest.version: expected a semantic version like "1.2.0"');
+  }
+  if (!isNonEmptyString(manifest.contentHash)) issues.push('manifest.contentHash: expected a non-empty string');
+}
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+function readJson(dir: string, file: string, issues: string[]): unknown {
+  const filePath = path.join(dir, file);
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error: any) {
+    issues.push(`${file}: ${error.message}`);
+    return undefined;
+  }
+}
+
+export function loadDataset(dir = DATASET_DIR): Dataset {
+  const issues: string[] = [];
+  const manifest = readJson(dir, 'manifest.json', issues);
+  const problems = readJson(dir, 'problems.json', issues);
+  const examples = readJson(dir, 'examples.json', issues);
+  if (issues.length > 0) throw new DatasetValidationError(issues);
+
+  validateManifest(manifest, issues);
+  validateProblems(problems, issues);
+  validateExamples(examples, issues);
+  if (issues.length > 0) throw new DatasetValidationError(issues);
+
+  const { name, version, contentHash } = manifest as DatasetManifest;
+  const actualHash = hashContent({ problems, examples });
+  if (actualHash !== contentHash) {
+    throw new DatasetValidationError([
+      `content hash mismatch: manifest pins ${contentHash} but the files hash to ${actualHash}. ` +
+      'If the edit is intentional, bump the version in manifest.json and update contentHash.'
+    ]);
+  }
+
+  const withHash = <T extends object>(item: T) => ({ ...item, contentHash: hashContent(item) });
+
+  return {
+    name,
+    version,
+    contentHash,
+    problems: (problems as Omit<Problem, 'contentHash'>[]).map(withHash),
+    examples: Object.fromEntries(
+      DOMAINS.map(domain => [domain, ((examples as any)[domain] as Omit<FewShotExample, 'contentHash'>[]).map(withHash)])
+    ) as Record<Domain, FewShotExample[]>
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * Response Cache
+ *
+ * Content-addressed store of model responses, kept as an append-only JSONL
+ * file. Each call is keyed by a hash of everything that determines it: the
+ * provider endpoint, model, sampling parameters, system prompt, the full
+ * prompt text (with any earlier chat turns), the repetition index and, in voting
+ * runs, the sample index. A rerun therefore skips every cell it
+ * has already answered, a changed prompt misses only the cells whose text
+ * changed, and a whole run can be replayed offline from the cache.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { hashContent } from '../dataset';
+import { GenerationRequest, ModelResponse, ModelSpec } from '../providers';
+
+export const CACHE_PATH = path.join(__dirname, '..', 'results', 'cache', 'responses.jsonl');
+
+export interface CachedResponse {
+  key: string;
+  provider: string;
+  model: string; // Provider-side model ID, or the registry name when the spec sets none
+  temperature: number | null;
+  repetition: number;
+  sample?: number; // Voting runs: samples after the first
+  response: string;
+  latencyMs: number;
+  usage?: ModelResponse['usage']; // Provider-reported usage, when there was any
+  createdAt: string;
+}
+
+export interface ResponseCache {
+  file: string;
+  size: number;
+  get(key: string): CachedResponse | undefined;
+  put(entry: CachedResponse): void;
+}
+
+// Repetitions and voting samples are part of the key so repeated samples of
+// one prompt stay distinct. The first sample keeps the single-sample key, so a
+// voting run reuses an earlier plain run of the same matrix.
+export function cacheKeyFor(spec: ModelSpec, request: GenerationRequest, repetition: number, sample = 1): string {
+  return hashContent({
+    provider: spec.provider,
+    baseUrl: spec.baseUrl ?? null,
+    model: spec.model ?? spec.name,
+    temperature: request.temperature ?? spec.temperature ?? null,
+    maxTokens: request.maxTokens ?? spec.maxTokens ?? null,
+    system: request.system ?? spec.system ?? null,
+    prompt: request.prompt,
+    // Only chat-format requests carry turns; leaving the field out keeps older keys valid
+    ...(request.history && { history: request.history }),
+    repetition,
+    ...(sample > 1 && { sample })
+  });
+}
+
+export function openResponseCache(file = CACHE_PATH): ResponseCache {
+  const entries = new Map<string, CachedResponse>();
+
+  if (fs.existsSync(file)) {
+    const lines = fs.readFileSync(file, 'utf-8').split('\n').filter(line => line.trim());
+    let skipped = 0;
+    for (const line of lines) {
+      // A crash mid-append can leave a truncated last line; later entries win
+      try {
+        const entry: CachedResponse = JSON.parse(line);
+        entries.set(entry.key, entry);
+      } catch {
+        skipped++;
+      }
+    }
+    if (skipped > 0) console.warn(`Warning: skipped ${skipped} unreadable line(s) in ${file}`);
+  }
+
+  return {
+    file,
+    get size() {
+      return entries.size;
+    },
+    get(key) {
+      return entries.get(key);
+    },
+    put(entry) {
+      entries.set(entry.key, entry);
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.appendFileSync(file, JSON.stringify(entry) + '\n');
+    }
+  };
+}
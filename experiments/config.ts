@@ -0,0 +1,294 @@
+/**
+ * Experiment Configuration
+ *
+ * Declarative description of an experiment matrix (models × shot counts ×
+ * problems × prompt variants × prompt modes × prompt styles × example selectors × temperatures ×
+ * repetitions × voting samples), with validation
+ * and expansion into the individual cells the runner executes.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Dataset, Domain, DOMAINS, Problem } from '../dataset';
+import { listPromptTemplates, PROMPT_STYLES, PromptStyle } from '../prompts';
+import { getModelSpec, listModels, ModelSpec, supportsMultiTurn } from '../providers';
+import { Arrangement, EXAMPLE_SELECTORS, ExampleSelectorName, listArrangements, selectExamples, SensitivityOptions } from './selectors';
+
+export const EXPERIMENTS_DIR = __dirname;
+export const DEFAULT_CONFIG_PATH = path.join(EXPERIMENTS_DIR, 'default.json');
+
+// Name of a prompt template in prompts/templates.json, e.g. 'default' or 'no-instructions'
+export type PromptVariant = string;
+
+// 'inline' puts the examples in one user message under "### Example N:" headings;
+// 'chat' sends them as user/assistant turns with the instructions as the system prompt
+export type PromptMode = 'inline' | 'chat';
+export const PROMPT_MODES: PromptMode[] = ['inline', 'chat'];
+
+export interface ProblemFilter {
+  include?: string[]; // Problem IDs to keep (all when omitted)
+  exclude?: string[];
+  difficulties?: Array<Problem['difficulty']>;
+}
+
+// Self-consistency: every cell is sampled several times and the answers are
+// majority-voted (graders/voting.ts). Each repetition is one vote.
+export interface VotingOptions {
+  samples: number; // Samples per vote, at least 2
+}
+
+// Per-run settings for a registered model (providers/models.json)
+export interface ModelOverride {
+  name: string;
+  temperature?: number;
+  maxTokens?: number;
+  system?: string;
+}
+
+export interface ExperimentConfig {
+  name: string;
+  description?: string;
+  models: Array<string | ModelOverride>; // Registered model names, optionally with overrides
+  shots: number[];
+  domains?: Domain[]; // All domains when omitted
+  problems?: ProblemFilter;
+  repetitions?: number; // Default 1
+  temperature?: number | number[]; // Overrides each model's own; a list sweeps over each value
+  promptVariants?: PromptVariant[]; // Prompt templates to sweep, default ['default']
+  promptModes?: PromptMode[]; // Default ['inline']; 'chat' needs a multi-turn provider
+  promptStyles?: PromptStyle[]; // Default ['default']; reasoning asked for (prompts/index.ts)
+  exampleSelectors?: ExampleSelectorName[]; // Default ['fixed'] (experiments/selectors.ts)
+  exampleSeed?: number; // Seed for the 'random' selector and permutations, default 0
+  sensitivity?: SensitivityOptions; // Also run reorderings / leave-one-out variants of each example set
+  voting?: VotingOptions; // Draw several samples per cell and vote on their answers
+}
+
+export interface ExperimentCell {
+  problem: Problem;
+  model: ModelSpec; // Registry spec with the config's overrides applied
+  shots: number;
+  repetition: number; // 1-based
+  temperature: number;
+  promptVariant: PromptVariant;
+  promptMode: PromptMode;
+  promptStyle: PromptStyle;
+  selector: ExampleSelectorName;
+  exampleSeed: number;
+  arrangement: Arrangement; // 'original' outside sensitivity runs
+  sample: number; // 1-based sample within the vote; 1 outside voting runs
+  samples: number; // Samples per vote; 1 outside voting runs
+}
+
+export class ConfigValidationError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid experiment config:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+  }
+}
+
+// Used when neither the config nor the model spec sets a temperature
+const DEFAULT_TEMPERATURE = 0.7;
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'string');
+
+function validateConfig(config: any, dataset: Dataset): string[] {
+  const issues: string[] = [];
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) return ['expected a JSON object'];
+
+  if (typeof config.name !== 'string' || !/^[\w.-]+$/.test(config.name)) {
+    issues.push('name: expected a string of letters, digits, ".", "_" or "-"');
+  }
+  if (!Array.isArray(config.models) || config.models.length === 0) {
+    issues.push('models: expected a non-empty list of model names or overrides');
+  } else {
+    const registered = listModels().map(m => m.name);
+    config.models.forEach((entry: any, i: number) => {
+      const name = typeof entry === 'string' ? entry : entry?.name;
+      if (!registered.includes(name)) {
+        issues.push(`models[${i}]: unknown model "${name}"; registered: ${registered.join(', ')}`);
+        return;
+      }
+      if (typeof entry === 'string') return;
+      if (entry.temperature !== undefined && (typeof entry.temperature !== 'number' || entry.temperature < 0 || entry.temperature > 2)) {
+        issues.push(`models[${i}].temperature: expected a number between 0 and 2`);
+      }
+      if (entry.maxTokens !== undefined && (!Number.isInteger(entry.maxTokens) || entry.maxTokens < 1)) {
+        issues.push(`models[${i}].maxTokens: expected a positive integer`);
+      }
+      if (entry.system !== undefined && typeof entry.system !== 'string') {
+        issues.push(`models[${i}].system: expected a string`);
+      }
+    });
+  }
+  if (!Array.isArray(config.shots) || config.shots.length === 0 || !config.shots.every((n: unknown) => Number.isInteger(n) && (n as number) >= 0)) {
+    issues.push('shots: expected a non-empty list of non-negative integers');
+  }
+  if (config.domains !== undefined && (!isStringArray(config.domains) || !config.domains.every((d: string) => DOMAINS.includes(d as Domain)))) {
+    issues.push(`domains: expected a list drawn from ${DOMAINS.join(', ')}`);
+  }
+  if (config.repetitions !== undefined && (!Number.isInteger(config.repetitions) || config.repetitions < 1)) {
+    issues.push('repetitions: expected a positive integer');
+  }
+
+  const temperatures = config.temperature === undefined ? [] : [config.temperature].flat();
+  if (!temperatures.every((t: unknown) => typeof t === 'number' && t >= 0 && t <= 2)) {
+    issues.push('temperature: expected a number (or list of numbers) between 0 and 2');
+  }
+  const templates = listPromptTemplates().map(t => t.name);
+  if (config.promptVariants !== undefined && (!isStringArray(config.promptVariants) || !config.promptVariants.every((v: string) => templates.includes(v)))) {
+    issues.push(`promptVariants: expected a list of prompt templates drawn from ${templates.join(', ')}`);
+  }
+  if (config.promptModes !== undefined && (!isStringArray(config.promptModes) || !config.promptModes.every((m: string) => PROMPT_MODES.includes(m as PromptMode)))) {
+    issues.push(`promptModes: expected a list drawn from ${PROMPT_MODES.join(', ')}`);
+  } else if (config.promptModes?.includes('chat') && Array.isArray(config.models)) {
+    const registered = listModels().map(m => m.name);
+    config.models.forEach((entry: any, i: number) => {
+      const name = typeof entry === 'string' ? entry : entry?.name;
+      if (registered.includes(name) && !supportsMultiTurn(getModelSpec(name))) {
+        issues.push(`models[${i}]: "${name}" uses the ${getModelSpec(name).provider} provider, which cannot take chat-format prompts (promptModes)`);
+      }
+    });
+  }
+  if (config.promptStyles !== undefined && (!isStringArray(config.promptStyles) || !config.promptStyles.every((s: string) => PROMPT_STYLES.includes(s as PromptStyle)))) {
+    issues.push(`promptStyles: expected a list drawn from ${PROMPT_STYLES.join(', ')}`);
+  }
+  if (config.exampleSelectors !== undefined && (!isStringArray(config.exampleSelectors) || !config.exampleSelectors.every((s: string) => EXAMPLE_SELECTORS.includes(s as ExampleSelectorName)))) {
+    issues.push(`exampleSelectors: expected a list drawn from ${EXAMPLE_SELECTORS.join(', ')}`);
+  }
+  if (config.exampleSeed !== undefined && !Number.isInteger(config.exampleSeed)) {
+    issues.push('exampleSeed: expected an integer');
+  }
+  const sensitivity = config.sensitivity;
+  if (sensitivity !== undefined) {
+    if (typeof sensitivity !== 'object' || sensitivity === null) {
+      issues.push('sensitivity: expected { permutations?, leaveOneOut? }');
+    } else {
+      if (sensitivity.permutations !== undefined && (!Number.isInteger(sensitivity.permutations) || sensitivity.permutations < 0)) {
+        issues.push('sensitivity.permutations: expected a non-negative integer');
+      }
+      if (sensitivity.leaveOneOut !== undefined && typeof sensitivity.leaveOneOut !== 'boolean') {
+        issues.push('sensitivity.leaveOneOut: expected a boolean');
+      }
+    }
+  }
+
+  if (config.voting !== undefined && (typeof config.voting !== 'object' || config.voting === null || !Number.isInteger(config.voting.samples) || config.voting.samples < 2)) {
+    issues.push('voting: expected { samples } with samples an integer of at least 2');
+  }
+
+  const filter = config.problems;
+  if (filter !== undefined) {
+    const knownIds = new Set(dataset.problems.map(p => p.id));
+    for (const key of ['include', 'exclude'] as const) {
+      if (filter[key] === undefined) continue;
+      if (!isStringArray(filter[key])) {
+        issues.push(`problems.${key}: expected a list of problem IDs`);
+        continue;
+      }
+      for (const id of filter[key].filter((id: string) => !knownIds.has(id))) {
+        issues.push(`problems.${key}: unknown problem "${id}" in dataset v${dataset.version}`);
+      }
+    }
+    if (filter.difficulties !== undefined && (!isStringArray(filter.difficulties) || !filter.difficulties.every((d: string) => ['easy', 'medium', 'hard'].includes(d)))) {
+      issues.push('problems.difficulties: expected a list drawn from easy, medium, hard');
+    }
+  }
+
+  return issues;
+}
+
+// Accepts a config file or the config.json snapshot saved in a run directory
+export function loadExperimentConfig(configPath: string, dataset: Dataset): ExperimentConfig {
+  let config: any;
+  try {
+    config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch (error: any) {
+    throw new ConfigValidationError([`${configPath}: ${error.message}`]);
+  }
+  if (typeof config?.runId === 'string' && config.config !== undefined) config = config.config;
+
+  const issues = validateConfig(config, dataset);
+  if (issues.length > 0) throw new ConfigValidationError(issues);
+  return config as ExperimentConfig;
+}
+
+// ============================================================================
+// EXPANSION
+// ============================================================================
+
+export function selectProblems(config: ExperimentConfig, dataset: Dataset): Problem[] {
+  const { include, exclude, difficulties } = config.problems ?? {};
+  return dataset.problems.filter(problem =>
+    (!config.domains || config.domains.includes(problem.domain)) &&
+    (!include || include.includes(problem.id)) &&
+    (!exclude || !exclude.includes(problem.id)) &&
+    (!difficulties || difficulties.includes(problem.difficulty))
+  );
+}
+
+export function resolveModels(config: ExperimentConfig): ModelSpec[] {
+  return config.models.map(entry => {
+    if (typeof entry === 'string') return getModelSpec(entry);
+    const { name, ...overrides } = entry;
+    return { ...getModelSpec(name), ...overrides };
+  });
+}
+
+// Cells are ordered problem → model → variant → mode → style → selector → temperature → shots →
+// arrangement → repetition → sample, so each problem's conditions run back to back as before
+export function expandMatrix(config: ExperimentConfig, dataset: Dataset): ExperimentCell[] {
+  const models = resolveModels(config);
+  const variants = config.promptVariants ?? ['default'];
+  const modes = config.promptModes ?? ['inline'];
+  const styles = config.promptStyles ?? ['default'];
+  const selectors = config.exampleSelectors ?? ['fixed'];
+  const exampleSeed = config.exampleSeed ?? 0;
+  const repetitions = config.repetitions ?? 1;
+  const samples = config.voting?.samples ?? 1;
+  const cells: ExperimentCell[] = [];
+
+  for (const problem of selectProblems(config, dataset)) {
+    for (const model of models) {
+      const temperatures = config.temperature === undefined
+        ? [model.temperature ?? DEFAULT_TEMPERATURE]
+        : [config.temperature].flat();
+
+      for (const promptVariant of variants) {
+        for (const promptMode of modes) {
+          for (const promptStyle of styles) {
+            for (const selector of selectors) {
+              for (const temperature of temperatures) {
+                for (const shots of config.shots) {
+                  // Arrangements depend on how many examples the selector actually finds
+                  const selected = selectExamples(selector, problem, dataset.examples, shots, exampleSeed).length;
+                  for (const arrangement of listArrangements(selected, config.sensitivity)) {
+                    for (let repetition = 1; repetition <= repetitions; repetition++) {
+                      for (let sample = 1; sample <= samples; sample++) {
+                        cells.push({ problem, model, shots, repetition, temperature, promptVariant, promptMode, promptStyle, selector, exampleSeed, arrangement, sample, samples });
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return cells;
+}
+
+export function conditionName(shots: number): string {
+  return shots === 0 ? 'zero-shot' : `${shots}-shot`;
+}
+
+// Run IDs sort chronologically: 2025-06-01T12-30-00-default
+export function createRunId(config: ExperimentConfig, now = new Date()): string {
+  return `${now.toISOString().slice(0, 19).replace(/:/g, '-')}-${config.name}`;
+}
@@ -0,0 +1,50 @@
+/**
+ * Execution Engine
+ *
+ * Async worker pool for experiment cells plus atomic result writes. The pool
+ * only bounds total work in flight; per-provider concurrency and rate limits
+ * are enforced by the providers themselves (providers/limits.ts), so cells
+ * for different providers proceed in parallel while each API stays throttled.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Run `worker` over every job with at most `concurrency` in flight. `onResult`
+// fires as each job settles (in completion order); a worker that throws is
+// reported through `onError` and does not stop the pool.
+export async function runPool<T, R>(
+  jobs: T[],
+  concurrency: number,
+  worker: (job: T, index: number) => Promise<R>,
+  handlers: {
+    onResult?: (result: R, job: T, index: number) => void;
+    onError?: (error: unknown, job: T, index: number) => void;
+  } = {}
+): Promise<Array<R | undefined>> {
+  const results: Array<R | undefined> = new Array(jobs.length);
+  let next = 0;
+
+  const runWorker = async () => {
+    while (next < jobs.length) {
+      const index = next++;
+      try {
+        results[index] = await worker(jobs[index], index);
+        handlers.onResult?.(results[index] as R, jobs[index], index);
+      } catch (error) {
+        handlers.onError?.(error, jobs[index], index);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, jobs.length) }, runWorker));
+  return results;
+}
+
+// Write to a temp file in the same directory and rename over the target, so a
+// crash mid-write never leaves a truncated results file behind
+export function writeFileAtomic(filePath: string, contents: string) {
+  const tempPath = path.join(path.dirname(filePath), `.${path.basename(filePath)}.${process.pid}.tmp`);
+  fs.writeFileSync(tempPath, contents);
+  fs.renameSync(tempPath, filePath);
+}
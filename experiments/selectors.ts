@@ -0,0 +1,190 @@
+/**
+ * Few-Shot Example Selectors
+ *
+ * Strategies for choosing which examples go into a k-shot prompt. Every
+ * selector is deterministic for a given problem and seed, so cached cells
+ * stay valid, and returns at most `count` examples: a pool smaller than the
+ * condition asks for yields fewer, which the runner records as the effective
+ * shot count. Only `cross-domain` tops up from other domains. Arrangements
+ * then reorder or thin out a selected set for order-sensitivity runs.
+ */
+
+import { createRng } from '../analysis/stats';
+import { Dataset, Difficulty, Domain, DOMAINS, FewShotExample, Problem } from '../dataset';
+
+export type ExampleSelectorName = 'fixed' | 'random' | 'similarity' | 'difficulty' | 'cross-domain';
+export const EXAMPLE_SELECTORS: ExampleSelectorName[] = ['fixed', 'random', 'similarity', 'difficulty', 'cross-domain'];
+
+export type ExampleSelector = (
+  problem: Problem,
+  examples: Dataset['examples'],
+  count: number,
+  seed: number
+) => FewShotExample[];
+
+// ============================================================================
+// BM25 RETRIEVAL
+// ============================================================================
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z]+|\d+/g) ?? [];
+}
+
+// Rank candidates by BM25 against the problem text. Document frequencies come
+// from the whole example pool, so scores are comparable across domains.
+function rankBySimilarity(problem: Problem, candidates: FewShotExample[], examples: Dataset['examples']): FewShotExample[] {
+  const corpus = DOMAINS.flatMap(domain => examples[domain]);
+  const documentTokens = new Map(corpus.map(ex => [ex.id, tokenize(`${ex.problem} ${ex.solution}`)]));
+  const avgLength = corpus.reduce((sum, ex) => sum + documentTokens.get(ex.id)!.length, 0) / corpus.length;
+
+  const documentFrequency = new Map<string, number>();
+  for (const tokens of documentTokens.values()) {
+    for (const term of new Set(tokens)) documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+  }
+  const idf = (term: string) => {
+    const df = documentFrequency.get(term) ?? 0;
+    return Math.log(1 + (corpus.length - df + 0.5) / (df + 0.5));
+  };
+
+  const queryTerms = [...new Set(tokenize(problem.prompt))];
+  const score = (example: FewShotExample) => {
+    const tokens = documentTokens.get(example.id)!;
+    return queryTerms.reduce((sum, term) => {
+      const tf = tokens.filter(t => t === term).length;
+      if (tf === 0) return sum;
+      return sum + idf(term) * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * tokens.length / avgLength));
+    }, 0);
+  };
+
+  // Stable: equal scores keep pool order
+  return candidates
+    .map((example, index) => ({ example, index, score: score(example) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ example }) => example);
+}
+
+// ============================================================================
+// SELECTORS
+// ============================================================================
+
+// FNV-1a, to derive a per-problem seed so each problem gets its own draw
+function hashSeed(seed: number, key: string): number {
+  let hash = 0x811c9dc5 ^ seed;
+  for (let i = 0; i < key.length; i++) hash = Math.imul(hash ^ key.charCodeAt(i), 0x01000193);
+  return hash >>> 0;
+}
+
+const DIFFICULTY_RANK: Record<Difficulty, number> = { easy: 0, medium: 1, hard: 2 };
+
+const SELECTORS: Record<ExampleSelectorName, ExampleSelector> = {
+  // The original behaviour: the first `count` examples in file order
+  'fixed': (problem, examples, count) => examples[problem.domain].slice(0, count),
+
+  // Seeded Fisher-Yates shuffle of the domain pool
+  'random': (problem, examples, count, seed) => {
+    const pool = [...examples[problem.domain]];
+    const rng = createRng(hashSeed(seed, problem.id));
+    for (let i = pool.length - 1; i > 0; i--) {
+      const j = Math.floor(rng() * (i + 1));
+      [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+    return pool.slice(0, count);
+  },
+
+  // Most similar same-domain examples first (BM25 over problem and solution text)
+  'similarity': (problem, examples, count) =>
+    rankBySimilarity(problem, examples[problem.domain], examples).slice(0, count),
+
+  // Same difficulty first, then the nearest difficulty; pool order breaks ties
+  'difficulty': (problem, examples, count) => {
+    const distance = (ex: FewShotExample) => Math.abs(DIFFICULTY_RANK[ex.difficulty] - DIFFICULTY_RANK[problem.difficulty]);
+    return examples[problem.domain]
+      .map((example, index) => ({ example, index }))
+      .sort((a, b) => distance(a.example) - distance(b.example) || a.index - b.index)
+      .map(({ example }) => example)
+      .slice(0, count);
+  },
+
+  // The whole same-domain pool, topped up with the most similar examples from other domains
+  'cross-domain': (problem, examples, count) => {
+    const otherDomains = DOMAINS.filter((d: Domain) => d !== problem.domain).flatMap(d => examples[d]);
+    return [
+      ...examples[problem.domain],
+      ...rankBySimilarity(problem, otherDomains, examples)
+    ].slice(0, count);
+  }
+};
+
+export function selectExamples(
+  selector: ExampleSelectorName,
+  problem: Problem,
+  examples: Dataset['examples'],
+  count: number,
+  seed = 0
+): FewShotExample[] {
+  return count === 0 ? [] : SELECTORS[selector](problem, examples, count, seed);
+}
+
+// ============================================================================
+// ARRANGEMENTS
+// ============================================================================
+
+// How a selected example set is laid out in the prompt, for order-sensitivity
+// runs: 'original' keeps selector order, 'permutation-<n>' is the n-th distinct
+// reordering, 'drop-<i>' leaves out the example at 1-based position i
+export type Arrangement = string;
+
+export interface SensitivityOptions {
+  permutations?: number; // Distinct reorderings per example set
+  leaveOneOut?: boolean; // One variant per example with that example removed
+}
+
+const factorial = (n: number): number => n <= 1 ? 1 : n * factorial(n - 1);
+
+// Arrangements worth running for a set of `count` examples; a single example has no order to vary
+export function listArrangements(count: number, { permutations = 0, leaveOneOut = false }: SensitivityOptions = {}): Arrangement[] {
+  if (count < 2) return ['original'];
+  const permutationCount = Math.min(permutations, factorial(count) - 1);
+  return [
+    'original',
+    ...Array.from({ length: permutationCount }, (_, i) => `permutation-${i + 1}`),
+    ...(leaveOneOut ? Array.from({ length: count }, (_, i) => `drop-${i + 1}`) : [])
+  ];
+}
+
+// Seeded shuffles until `n` distinct non-identity orders are found, so
+// 'permutation-2' is the same order on every run with the same seed
+function distinctPermutations(count: number, n: number, seed: number): number[][] {
+  const rng = createRng(hashSeed(seed, `permutations-${count}`));
+  const identity = Array.from({ length: count }, (_, i) => i);
+  const seen = new Set([identity.join(',')]);
+  const found: number[][] = [];
+  while (found.length < Math.min(n, factorial(count) - 1)) {
+    const order = [...identity];
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(rng() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+    if (seen.has(order.join(','))) continue;
+    seen.add(order.join(','));
+    found.push(order);
+  }
+  return found;
+}
+
+export function arrangeExamples(examples: FewShotExample[], arrangement: Arrangement, seed = 0): FewShotExample[] {
+  const [kind, index] = [arrangement.replace(/-\d+$/, ''), parseInt(arrangement.split('-').pop() ?? '', 10)];
+  switch (kind) {
+    case 'original':
+      return examples;
+    case 'permutation':
+      return distinctPermutations(examples.length, index, seed)[index - 1].map(i => examples[i]);
+    case 'drop':
+      return examples.filter((_, i) => i !== index - 1);
+    default:
+      throw new Error(`Unknown example arrangement "${arrangement}"`);
+  }
+}
@@ -0,0 +1,387 @@
+/**
+ * Generate HTML Report
+ *
+ * Renders a self-contained static HTML report from detailed-analysis.json:
+ * accuracy, format and token charts by condition, model and domain, a
+ * per-problem heat map, and a drill-down of every prompt and response with
+ * its grader annotations. Styles and charts are inlined, so the file opens
+ * offline and can be attached to a write-up as is.
+ *
+ * Run with: npx tsx scripts/stem-fewshot-experiments/generate-report.ts
+ * Add --run <runId> to report on a config-driven run from results/runs/, and
+ * --out <file> to write somewhere other than report.html next to the analysis.
+ * The report only reads analyze-results.ts output, so run that first.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { barChart, BarValue, escapeHtml, heatColor } from './report/charts';
+
+const RESULTS_DIR = path.join(__dirname, 'results');
+const RUNS_DIR = path.join(RESULTS_DIR, 'runs');
+
+interface ConfidenceInterval {
+  estimate: number;
+  lower: number;
+  upper: number;
+}
+
+// The parts of an analyze-results.ts record the report reads
+interface ReportRecord {
+  problemId: string;
+  model: string;
+  condition: string;
+  repetition: number;
+  sample?: number; // Absent in analyses from before voting runs
+  arrangement?: string;
+  promptMode?: string;
+  promptStyle?: string;
+  promptVariant?: string; // Absent in analyses from before template variants were carried
+  domain: string;
+  correct: boolean;
+  correctnessScore: number;
+  formatScore: number;
+  tokenCount: number;
+  costUsd: number | null;
+  latencyMs: number;
+  extraction?: { status: string; rule: string | null; confidence: number; answer: string | null; conflicts?: string[] };
+  structure?: { compliance: number | null; sections?: Record<string, string> };
+  mathVerdict?: string;
+  extractedAnswer?: string | null;
+  quantityGrades?: Array<{ name: string; status: string; expected: string; found: string | null; relativeError?: number }>;
+  equationGrade?: { verdict: string; extractedEquation: string | null; imbalances: string[]; detail?: string };
+  rubricItems?: Array<{ id: string; description: string; weight: number; earned: number; matched: string[]; misconceptions: string[] }>;
+  judgeVerdict?: { correct: boolean | null; confidence: number; rationale: string };
+  overlap?: { closest: string | null; wording: number; structure: number; copiedNumbers: string[]; copiedAnswer: string | null; flags: string[]; verdict: string };
+  prompt?: string; // Absent in analyses from before the report
+  system?: string;
+  history?: Array<{ role: string; content: string }>;
+  response?: string;
+}
+
+interface AnalysisFile {
+  summary: {
+    totalExperiments: number;
+    models: string[];
+    byCondition: Record<string, Record<string, { accuracy: number; avgFormat: number; avgTokens: number }>>;
+    confidenceIntervals?: Record<string, Record<string, { accuracy: ConfidenceInterval | null; formatScore: ConfidenceInterval | null; tokens: ConfidenceInterval | null }>>;
+    itemAnalysis?: { items: Array<{ item: string; label: string; pValue: number; flags: string[] }> };
+  };
+  detailedRecords: ReportRecord[];
+}
+
+const shotCount = (condition: string) => condition === 'zero-shot' ? 0 : parseInt(condition, 10);
+
+const percent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+const mean = (records: ReportRecord[], value: (r: ReportRecord) => number) =>
+  records.reduce((sum, r) => sum + value(r), 0) / records.length;
+
+function parseOption(args: string[], name: string): string | null {
+  const index = args.indexOf(name);
+  return index === -1 ? null : args[index + 1] ?? '';
+}
+
+// ============================================================================
+// CHARTS
+// ============================================================================
+
+function conditionCharts(analysis: AnalysisFile, conditions: string[]): string {
+  const { models, byCondition, confidenceIntervals } = analysis.summary;
+  const interval = (ci: ConfidenceInterval | null | undefined, value: number): BarValue =>
+    ci ? { value, lower: ci.lower, upper: ci.upper } : { value };
+
+  return [
+    barChart({
+      title: 'Accuracy by condition',
+      groups: conditions,
+      series: models,
+      value: (condition, model) => {
+        const cell = byCondition[model]?.[condition];
+        return cell ? interval(confidenceIntervals?.[model]?.[condition]?.accuracy, cell.accuracy) : null;
+      },
+      format: percent,
+      max: 1
+    }),
+    barChart({
+      title: 'Format score (0-10) by condition',
+      groups: conditions,
+      series: models,
+      value: (condition, model) => {
+        const cell = byCondition[model]?.[condition];
+        return cell ? interval(confidenceIntervals?.[model]?.[condition]?.formatScore, cell.avgFormat) : null;
+      },
+      format: value => value.toFixed(1),
+      max: 10
+    }),
+    barChart({
+      title: 'Completion tokens by condition',
+      groups: conditions,
+      series: models,
+      value: (condition, model) => {
+        const cell = byCondition[model]?.[condition];
+        return cell ? interval(confidenceIntervals?.[model]?.[condition]?.tokens, cell.avgTokens) : null;
+      },
+      format: value => value.toFixed(0)
+    })
+  ].join('\n');
+}
+
+// One row of charts per model: each domain, split by condition
+function domainCharts(records: ReportRecord[], models: string[], domains: string[], conditions: string[]): string {
+  const cellFor = (model: string, domain: string, condition: string, value: (r: ReportRecord) => number): BarValue | null => {
+    const cell = records.filter(r => r.model === model && r.domain === domain && r.condition === condition);
+    return cell.length > 0 ? { value: mean(cell, value) } : null;
+  };
+
+  return models.map(model => `
+    <h3>${escapeHtml(model)}</h3>
+    <div class="charts">
+      ${barChart({
+        title: `Accuracy by domain: ${model}`,
+        groups: domains,
+        series: conditions,
+        value: (domain, condition) => cellFor(model, domain, condition, r => r.correct ? 1 : 0),
+        format: percent,
+        max: 1
+      })}
+      ${barChart({
+        title: `Format score by domain: ${model}`,
+        groups: domains,
+        series: conditions,
+        value: (domain, condition) => cellFor(model, domain, condition, r => r.formatScore),
+        format: value => value.toFixed(1),
+        max: 10
+      })}
+      ${barChart({
+        title: `Completion tokens by domain: ${model}`,
+        groups: domains,
+        series: conditions,
+        value: (domain, condition) => cellFor(model, domain, condition, r => r.tokenCount),
+        format: value => value.toFixed(0)
+      })}
+    </div>`).join('\n');
+}
+
+// ============================================================================
+// HEAT MAP
+// ============================================================================
+
+function heatMap(analysis: AnalysisFile, records: ReportRecord[], problemIds: string[], conditions: string[]): string {
+  const { models, itemAnalysis } = analysis.summary;
+  const items = new Map((itemAnalysis?.items ?? []).map(item => [item.item, item]));
+
+  // Template ablations get one column group per model and variant
+  const variants = [...new Set(records.map(r => r.promptVariant ?? 'default'))];
+  const groups = models.flatMap(model => variants.map(variant => ({
+    model,
+    variant,
+    label: variants.length > 1 ? `${model} · ${variant}` : model
+  })));
+
+  const header = [
+    `<tr><th rowspan="2">Problem</th>${groups.map(g => `<th colspan="${conditions.length}">${escapeHtml(g.label)}</th>`).join('')}</tr>`,
+    `<tr>${groups.map(() => conditions.map(c => `<th>${escapeHtml(c)}</th>`).join('')).join('')}</tr>`
+  ];
+
+  const rows = problemIds.map(problemId => {
+    const item = items.get(problemId);
+    const label = item ? `<span class="muted">${escapeHtml(item.label)}, p = ${item.pValue.toFixed(2)}</span>` : '';
+    const cells = groups.flatMap(({ model, variant, label: group }) => conditions.map(condition => {
+      const cell = records.filter(r => r.problemId === problemId && r.model === model && (r.promptVariant ?? 'default') === variant && r.condition === condition);
+      if (cell.length === 0) return '<td class="empty">N/A</td>';
+      const correct = cell.filter(r => r.correct).length;
+      const text = cell.length === 1 ? (correct ? '✓' : '✗') : `${correct}/${cell.length}`;
+      return `<td style="background:${heatColor(correct / cell.length)}" title="${escapeHtml(`${problemId}, ${group}, ${condition}: ${correct}/${cell.length} correct`)}"><a href="#problem-${escapeHtml(problemId)}">${text}</a></td>`;
+    }));
+    return `<tr><th><a href="#problem-${escapeHtml(problemId)}">${escapeHtml(problemId)}</a> ${label}</th>${cells.join('')}</tr>`;
+  });
+
+  return `<table class="heatmap"><thead>${header.join('')}</thead><tbody>${rows.join('\n')}</tbody></table>`;
+}
+
+// ============================================================================
+// DRILL-DOWN
+// ============================================================================
+
+const pre = (text: string) => `<pre>${escapeHtml(text)}</pre>`;
+
+function smallTable(headers: string[], rows: string[][]): string {
+  return `<table class="small"><tr>${headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr>${rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}</table>`;
+}
+
+// Grader annotations: what each grader found, as definition list entries
+function annotations(r: ReportRecord): string {
+  const entries: Array<[string, string]> = [];
+
+  if (r.extraction) {
+    const { status, rule, confidence, answer, conflicts } = r.extraction;
+    entries.push(['Final answer', escapeHtml(`${answer ?? '(none)'} — ${status}${rule ? ` via ${rule}` : ''}, confidence ${confidence.toFixed(2)}`) +
+      (conflicts ? `<br>Conflicts: ${escapeHtml(conflicts.join(' | '))}` : '')]);
+  }
+  if (r.mathVerdict) entries.push(['Math grader', escapeHtml(`${r.mathVerdict}${r.extractedAnswer ? ` (graded ${r.extractedAnswer})` : ''}`)]);
+  if (r.quantityGrades) {
+    entries.push(['Quantities', smallTable(['Quantity', 'Status', 'Expected', 'Found', 'Rel. error'], r.quantityGrades.map(q =>
+      [q.name, q.status, q.expected, q.found ?? '-', q.relativeError === undefined ? '-' : q.relativeError.toExponential(2)]))]);
+  }
+  if (r.equationGrade) {
+    const { verdict, extractedEquation, imbalances, detail } = r.equationGrade;
+    entries.push(['Equation', escapeHtml(`${verdict}: ${extractedEquation ?? '(none found)'}`) +
+      (imbalances.length > 0 ? `<br>Imbalances: ${escapeHtml(imbalances.join(', '))}` : '') +
+      (detail ? `<br>${escapeHtml(detail)}` : '')]);
+  }
+  if (r.rubricItems) {
+    entries.push(['Rubric', smallTable(['Item', 'Earned', 'Matched', 'Misconceptions'], r.rubricItems.map(item =>
+      [item.description, `${item.earned}/${item.weight}`, item.matched.join(', ') || '-', item.misconceptions.join(', ') || '-']))]);
+  }
+  if (r.judgeVerdict) {
+    const { correct, confidence, rationale } = r.judgeVerdict;
+    entries.push(['Judge', escapeHtml(`${correct === null ? 'no verdict' : correct ? 'correct' : 'incorrect'} (confidence ${confidence.toFixed(2)}): ${rationale}`)]);
+  }
+  if (r.structure?.sections) {
+    const sections = Object.entries(r.structure.sections)
+      .map(([id, status]) => `<span class="section ${escapeHtml(status)}">${escapeHtml(id)}: ${escapeHtml(status)}</span>`)
+      .join(' ');
+    entries.push(['Format sections', `${sections} — checklist ${r.formatScore.toFixed(1)}/10`]);
+  }
+  if (r.overlap) {
+    const { verdict, closest, wording, structure, copiedNumbers, copiedAnswer } = r.overlap;
+    entries.push(['Example overlap', escapeHtml(`${verdict}; closest ${closest ?? '-'}, wording ${wording.toFixed(2)}, structure ${structure.toFixed(2)}`) +
+      (copiedNumbers.length > 0 ? `<br>Example numbers reused: ${escapeHtml(copiedNumbers.join(', '))}` : '') +
+      (copiedAnswer ? `<br>Final answer of ${escapeHtml(copiedAnswer)}` : '')]);
+  }
+
+  return `<dl>${entries.map(([term, detail]) => `<dt>${escapeHtml(term)}</dt><dd>${detail}</dd>`).join('')}</dl>`;
+}
+
+function recordDetails(r: ReportRecord): string {
+  // Only the factors that differ from a plain run
+  const setup = [
+    r.promptVariant && r.promptVariant !== 'default' ? r.promptVariant : null,
+    r.promptMode && r.promptMode !== 'inline' ? r.promptMode : null,
+    r.promptStyle && r.promptStyle !== 'default' ? r.promptStyle : null,
+    r.arrangement && r.arrangement !== 'original' ? r.arrangement : null,
+    r.repetition > 1 ? `rep ${r.repetition}` : null,
+    (r.sample ?? 1) > 1 ? `sample ${r.sample}` : null
+  ].filter(Boolean).join(', ');
+
+  const heading = [
+    `<span class="badge ${r.correct ? 'ok' : 'fail'}">${r.correct ? '✓' : '✗'}</span>`,
+    `<strong>${escapeHtml(r.model)}</strong>`,
+    escapeHtml(r.condition),
+    setup ? `<span class="muted">${escapeHtml(setup)}</span>` : '',
+    `<span class="muted">score ${percent(r.correctnessScore)} · format ${r.formatScore.toFixed(1)} · ${r.tokenCount} tokens · ${(r.latencyMs / 1000).toFixed(1)} s</span>`
+  ].filter(Boolean).join(' ');
+
+  const conversation = r.prompt === undefined
+    ? '<p class="muted">Prompt and response not in this analysis; rerun analyze-results.ts to include them.</p>'
+    : [
+      r.system !== undefined ? `<h4>System</h4>${pre(r.system)}` : '',
+      ...(r.history ?? []).map((turn, i) => `<h4>Example turn ${Math.floor(i / 2) + 1} (${escapeHtml(turn.role)})</h4>${pre(turn.content)}`),
+      `<h4>Prompt</h4>${pre(r.prompt)}`,
+      `<h4>Response</h4>${pre(r.response ?? '')}`
+    ].join('\n');
+
+  return `<details><summary>${heading}</summary>${annotations(r)}${conversation}</details>`;
+}
+
+// ============================================================================
+// PAGE
+// ============================================================================
+
+const STYLE = `
+  body { font: 14px/1.5 system-ui, -apple-system, "Segoe UI", sans-serif; margin: 0 auto; max-width: 1100px; padding: 24px; color: #222; }
+  h1 { margin-bottom: 4px; }
+  h2 { border-bottom: 1px solid #ddd; padding-bottom: 4px; margin-top: 40px; }
+  nav a { margin-right: 16px; }
+  .muted { color: #777; font-weight: normal; }
+  .charts { display: grid; grid-template-columns: repeat(auto-fit, minmax(320px, 1fr)); gap: 16px; }
+  .chart { width: 100%; height: auto; }
+  .chart-title { font-size: 14px; font-weight: 600; }
+  .tick { font-size: 11px; fill: #555; }
+  .grid { stroke: #eee; }
+  .whisker { stroke: #333; fill: none; }
+  table { border-collapse: collapse; }
+  .heatmap th, .heatmap td { border: 1px solid #fff; padding: 4px 8px; text-align: center; }
+  .heatmap tbody th { text-align: left; background: #f6f6f6; }
+  .heatmap td a { color: #222; text-decoration: none; display: block; }
+  .heatmap .empty { color: #aaa; }
+  details { border: 1px solid #ddd; border-radius: 4px; margin: 6px 0; padding: 6px 10px; }
+  summary { cursor: pointer; }
+  .badge { display: inline-block; width: 20px; text-align: center; border-radius: 3px; color: #fff; }
+  .badge.ok { background: #59a14f; }
+  .badge.fail { background: #e15759; }
+  dl { display: grid; grid-template-columns: 140px 1fr; gap: 4px 12px; }
+  dt { font-weight: 600; }
+  dd { margin: 0; }
+  .small th, .small td { border: 1px solid #ddd; padding: 2px 6px; font-size: 12px; text-align: left; }
+  .section { display: inline-block; padding: 0 6px; border-radius: 3px; font-size: 12px; background: #e8f3e6; }
+  .section.out-of-order { background: #fbf0d9; }
+  .section.missing { background: #f8dcdc; }
+  pre { background: #f6f8fa; padding: 8px; overflow-x: auto; white-space: pre-wrap; font-size: 12px; }
+`;
+
+function renderReport(analysis: AnalysisFile, runLabel: string): string {
+  const records = analysis.detailedRecords;
+  // Same cells as the analyzer's tables: first sample of each vote, original example order
+  const chartRecords = records.filter(r => (r.sample ?? 1) === 1 && (r.arrangement ?? 'original') === 'original');
+  const conditions = [...new Set(records.map(r => r.condition))].sort((a, b) => shotCount(a) - shotCount(b));
+  const domains = [...new Set(records.map(r => r.domain))];
+  const problemIds = [...new Set(records.map(r => r.problemId))];
+  const { models, totalExperiments } = analysis.summary;
+
+  const drillDown = problemIds.map(problemId => `
+    <section id="problem-${escapeHtml(problemId)}">
+      <h3>${escapeHtml(problemId)}</h3>
+      ${records.filter(r => r.problemId === problemId).map(recordDetails).join('\n')}
+    </section>`).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>STEM Few-Shot Report: ${escapeHtml(runLabel)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>STEM Few-Shot Experiment Report</h1>
+<p class="muted">${escapeHtml(runLabel)} · ${totalExperiments} experiments · models: ${escapeHtml(models.join(', '))} · generated ${escapeHtml(new Date().toISOString())}</p>
+<nav><a href="#conditions">By condition</a><a href="#domains">By domain</a><a href="#heatmap">Problem heat map</a><a href="#responses">Responses</a></nav>
+
+<h2 id="conditions">By condition</h2>
+<p class="muted">Whiskers are 95% bootstrap confidence intervals; hover a bar for its value.</p>
+<div class="charts">${conditionCharts(analysis, conditions)}</div>
+
+<h2 id="domains">By domain</h2>
+${domainCharts(chartRecords, models, domains, conditions)}
+
+<h2 id="heatmap">Problem heat map</h2>
+<p class="muted">Share correct per problem, model and condition, split by template variant when the run has several. Labels are hand-set difficulty and the empirical p-value. Click a cell for its responses.</p>
+${heatMap(analysis, chartRecords, problemIds, conditions)}
+
+<h2 id="responses">Responses</h2>
+<p class="muted">Every response with its grader annotations, grouped by problem.</p>
+${drillDown}
+</body>
+</html>
+`;
+}
+
+function generateReport() {
+  const args = process.argv.slice(2);
+  const runId = parseOption(args, '--run');
+  // Config-driven runs live in results/runs/<runId>/; without --run, read the legacy results/
+  const resultsDir = runId === null ? RESULTS_DIR : path.join(RUNS_DIR, runId);
+  const analysisPath = path.join(resultsDir, 'detailed-analysis.json');
+  if (!fs.existsSync(analysisPath)) {
+    throw new Error(`No analysis at ${analysisPath}; run analyze-results.ts${runId === null ? '' : ` --run ${runId}`} first`);
+  }
+
+  const analysis: AnalysisFile = JSON.parse(fs.readFileSync(analysisPath, 'utf-8'));
+  const outputPath = parseOption(args, '--out') ?? path.join(resultsDir, 'report.html');
+  fs.writeFileSync(outputPath, renderReport(analysis, runId ?? 'original run'));
+  console.log(`Report saved to: ${outputPath}`);
+}
+
+generateReport();
@@ -0,0 +1,375 @@
+/**
+ * Chemical Equation Grader
+ *
+ * Parses chemical equations written with Unicode subscripts/superscripts or
+ * LaTeX (`O_2`, `Fe^{2+}`, `\rightarrow`, `\text{...}`, `\ce{...}`), checks
+ * atom and charge conservation, and compares the reduced coefficient vector
+ * against the expected equation. A balanced equation in lowest whole-number
+ * coefficients that reduce to the expected ones is accepted, regardless of
+ * species order; multiples and fractions of it are reported as not reduced.
+ */
+
+import { extractAnswer } from './extraction';
+
+export type EquationVerdict = 'correct' | 'not-reduced' | 'unbalanced' | 'wrong-coefficients' | 'wrong-species' | 'unparseable';
+
+export interface EquationGradeResult {
+  verdict: EquationVerdict;
+  extractedEquation: string | null;
+  atomsBalanced: boolean;
+  chargeBalanced: boolean;
+  minimal: boolean; // Coefficients already in lowest whole-number terms
+  imbalances: string[];
+  detail?: string;
+}
+
+export interface Species {
+  formula: string;
+  coefficient: number;
+  atoms: Record<string, number>;
+  charge: number;
+}
+
+export interface ChemicalEquation {
+  reactants: Species[];
+  products: Species[];
+}
+
+export class EquationParseError extends Error {}
+
+const ELEMENTS = new Set((
+  'H He Li Be B C N O F Ne Na Mg Al Si P S Cl Ar K Ca Sc Ti V Cr Mn Fe Co Ni Cu Zn Ga Ge As Se Br Kr ' +
+  'Rb Sr Y Zr Nb Mo Tc Ru Rh Pd Ag Cd In Sn Sb Te I Xe Cs Ba La Ce Pr Nd Pm Sm Eu Gd Tb Dy Ho Er Tm Yb ' +
+  'Lu Hf Ta W Re Os Ir Pt Au Hg Tl Pb Bi Po At Rn Fr Ra Ac Th Pa U Np Pu'
+).split(' '));
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+const SUBSCRIPTS: Record<string, string> = {
+  '₀': '0', '₁': '1', '₂': '2', '₃': '3', '₄': '4', '₅': '5', '₆': '6', '₇': '7', '₈': '8', '₉': '9'
+};
+
+const SUPERSCRIPTS: Record<string, string> = {
+  '⁰': '0', '¹': '1', '²': '2', '³': '3', '⁴': '4', '⁵': '5', '⁶': '6', '⁷': '7', '⁸': '8', '⁹': '9',
+  '⁺': '+', '⁻': '-'
+};
+
+const ARROW = '→';
+
+// Rewrite an equation into plain formulas with charges as ^{n+}, one → arrow
+export function normalizeEquation(text: string): string {
+  return text
+    .replace(/\$/g, '')
+    .replace(/\*\*/g, '')
+    .replace(/\\ce\{((?:[^{}]|\{[^{}]*\})*)\}/g, '$1')
+    .replace(/\\(?:large|Large|displaystyle|ce)\b/g, '')
+    .replace(/\\(?:text|mathrm|mathbf)\{([^{}]*)\}/g, '$1')
+    .replace(/\\xrightarrow\{[^{}]*\}|\\(?:long)?rightarrow|\\to\b|\\rightleftharpoons|⟶|⇌|->|=>/g, ARROW)
+    .replace(/\\[,;! ]/g, ' ')
+    .replace(/\s*(?:\\cdot|[·⋅•∙])\s*/g, '·')
+    .replace(/[₀-₉]/g, c => SUBSCRIPTS[c])
+    .replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹⁺⁻]+/g, run => `^{${[...run].map(c => SUPERSCRIPTS[c]).join('')}}`)
+    .replace(/_\{(\d+)\}|_(\d)/g, (_, braced, single) => braced ?? single)
+    .replace(/\^([+-])/g, '^{$1}')
+    .replace(/\((?:aq|s|l|g)\)/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+// Hydrates ("CuSO4·5H2O") add each dotted part, with its leading count, to the whole
+function parseFormula(formula: string): Record<string, number> {
+  const [main, ...hydrates] = formula.split('·');
+  const counts = parseSimpleFormula(main, formula);
+  for (const part of hydrates) {
+    const match = part.match(/^(\d*)(.+)$/);
+    if (!match) throw new EquationParseError(`Empty hydrate part in "${formula}"`);
+    const multiplier = match[1] ? parseInt(match[1], 10) : 1;
+    for (const [element, n] of Object.entries(parseSimpleFormula(match[2], formula))) {
+      counts[element] = (counts[element] ?? 0) + n * multiplier;
+    }
+  }
+  return counts;
+}
+
+function parseSimpleFormula(formula: string, whole: string): Record<string, number> {
+  let pos = 0;
+
+  function parseGroup(closer: string | null): Record<string, number> {
+    const counts: Record<string, number> = {};
+    const add = (element: string, n: number) => { counts[element] = (counts[element] ?? 0) + n; };
+
+    while (pos < formula.length) {
+      const ch = formula[pos];
+      if (closer && ch === closer) {
+        pos++;
+        return counts;
+      }
+
+      let group: Record<string, number>;
+      if (ch === '(' || ch === '[') {
+        pos++;
+        group = parseGroup(ch === '(' ? ')' : ']');
+      } else {
+        const match = formula.slice(pos).match(/^[A-Z][a-z]?/);
+        if (!match || !ELEMENTS.has(match[0])) {
+          throw new EquationParseError(`Unknown element in "${whole}"`);
+        }
+        pos += match[0].length;
+        group = { [match[0]]: 1 };
+      }
+
+      const countMatch = formula.slice(pos).match(/^\d+/);
+      const multiplier = countMatch ? parseInt(countMatch[0], 10) : 1;
+      if (countMatch) pos += countMatch[0].length;
+
+      for (const [element, n] of Object.entries(group)) add(element, n * multiplier);
+    }
+
+    if (closer) throw new EquationParseError(`Unclosed group in "${whole}"`);
+    return counts;
+  }
+
+  return parseGroup(null);
+}
+
+function parseCoefficient(text: string): number {
+  const fraction = text.replace(/[()]/g, '').match(/^(\d+)\/(\d+)$/);
+  if (fraction) return parseInt(fraction[1], 10) / parseInt(fraction[2], 10);
+  return parseFloat(text);
+}
+
+function parseCharge(text: string | undefined): number {
+  if (!text) return 0;
+  const match = text.match(/^(\d*)([+-])$/);
+  if (!match) throw new EquationParseError(`Bad charge "${text}"`);
+  const magnitude = match[1] ? parseInt(match[1], 10) : 1;
+  return match[2] === '+' ? magnitude : -magnitude;
+}
+
+const SPECIES_PATTERN = /^(\(\d+\/\d+\)|\d+\/\d+|\d+(?:\.\d+)?)?\s*((?:[A-Z][a-z]?|[()[\]·]|\d)+|e)(?:\^\{([^{}]*)\})?$/;
+
+export function parseSpecies(term: string): Species {
+  const match = term.trim().match(SPECIES_PATTERN);
+  if (!match) throw new EquationParseError(`Not a chemical species: "${term.trim()}"`);
+
+  const coefficient = match[1] ? parseCoefficient(match[1]) : 1;
+  const formula = match[2];
+
+  // Electrons in half-reactions
+  if (formula === 'e') return { formula: 'e-', coefficient, atoms: {}, charge: -1 };
+
+  return { formula, coefficient, atoms: parseFormula(formula), charge: parseCharge(match[3]) };
+}
+
+// Split on "+" separators, leaving charges such as ^{2+} intact
+function splitTerms(side: string): string[] {
+  const terms: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of side) {
+    if (ch === '{') depth++;
+    if (ch === '}') depth--;
+    if (ch === '+' && depth === 0) {
+      terms.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  terms.push(current);
+  return terms.map(t => t.trim());
+}
+
+// Longest run of whole words at the start or end of a term that reads as a species
+function longestSpecies(term: string, anchor: 'prefix' | 'suffix'): string {
+  const words = term.trim().replace(/[.,;]$/, '').split(' ');
+  for (let k = 0; k < words.length; k++) {
+    const candidate = anchor === 'suffix' ? words.slice(k).join(' ') : words.slice(0, words.length - k).join(' ');
+    if (SPECIES_PATTERN.test(candidate)) return candidate;
+  }
+  return term;
+}
+
+export function parseEquation(text: string): ChemicalEquation {
+  const normalized = normalizeEquation(text);
+  const sides = normalized.split(ARROW);
+  if (sides.length !== 2) throw new EquationParseError('Expected exactly one reaction arrow');
+
+  const leftTerms = splitTerms(sides[0]);
+  const rightTerms = splitTerms(sides[1]);
+
+  // Prose around the equation ("Multiply by 2: 4Fe + ...", "... is balanced.")
+  // is trimmed from the outermost terms only
+  leftTerms[0] = longestSpecies(leftTerms[0].split(':').pop() ?? '', 'suffix');
+  const last = rightTerms.length - 1;
+  rightTerms[last] = longestSpecies(rightTerms[last], 'prefix');
+
+  return {
+    reactants: leftTerms.map(parseSpecies),
+    products: rightTerms.map(parseSpecies)
+  };
+}
+
+function formatSpecies(species: Species): string {
+  const coefficient = species.coefficient === 1 ? '' : String(species.coefficient);
+  if (species.formula === 'e-') return `${coefficient}e^{-}`;
+  const magnitude = Math.abs(species.charge) === 1 ? '' : String(Math.abs(species.charge));
+  const charge = species.charge === 0 ? '' : `^{${magnitude}${species.charge > 0 ? '+' : '-'}}`;
+  return `${coefficient}${species.formula}${charge}`;
+}
+
+export function formatEquation(equation: ChemicalEquation): string {
+  const side = (species: Species[]) => species.map(formatSpecies).join(' + ');
+  return `${side(equation.reactants)} ${ARROW} ${side(equation.products)}`;
+}
+
+// ============================================================================
+// BALANCE CHECKS
+// ============================================================================
+
+function totals(species: Species[]): { atoms: Record<string, number>; charge: number } {
+  const atoms: Record<string, number> = {};
+  let charge = 0;
+  for (const s of species) {
+    for (const [element, n] of Object.entries(s.atoms)) {
+      atoms[element] = (atoms[element] ?? 0) + n * s.coefficient;
+    }
+    charge += s.charge * s.coefficient;
+  }
+  return { atoms, charge };
+}
+
+const approxEqual = (a: number, b: number) => Math.abs(a - b) < 1e-9;
+
+export function checkBalance(equation: ChemicalEquation): {
+  atomsBalanced: boolean;
+  chargeBalanced: boolean;
+  imbalances: string[];
+} {
+  const left = totals(equation.reactants);
+  const right = totals(equation.products);
+  const imbalances: string[] = [];
+
+  const elements = new Set([...Object.keys(left.atoms), ...Object.keys(right.atoms)]);
+  for (const element of elements) {
+    const l = left.atoms[element] ?? 0;
+    const r = right.atoms[element] ?? 0;
+    if (!approxEqual(l, r)) imbalances.push(`${element}: ${l} vs ${r}`);
+  }
+  const atomsBalanced = imbalances.length === 0;
+
+  const chargeBalanced = approxEqual(left.charge, right.charge);
+  if (!chargeBalanced) imbalances.push(`charge: ${left.charge} vs ${right.charge}`);
+
+  return { atomsBalanced, chargeBalanced, imbalances };
+}
+
+// ============================================================================
+// COEFFICIENT COMPARISON
+// ============================================================================
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+// Scale coefficients to the smallest whole numbers with the same ratios
+function reduceCoefficients(coefficients: number[]): number[] {
+  const scale = [1, 2, 3, 4, 5, 6, 8, 10, 12, 100].find(k =>
+    coefficients.every(c => approxEqual(c * k, Math.round(c * k)))
+  ) ?? 1;
+  const integers = coefficients.map(c => Math.round(c * scale));
+  const divisor = integers.reduce((g, c) => gcd(g, c), 0) || 1;
+  return integers.map(c => c / divisor);
+}
+
+function speciesKey(species: Species): string {
+  const atoms = Object.entries(species.atoms)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([element, n]) => `${element}${n}`)
+    .join('');
+  return `${atoms || species.formula}|${species.charge}`;
+}
+
+// Side-tagged species keys mapped to reduced coefficients
+function coefficientVector(equation: ChemicalEquation): Map<string, number> {
+  const all = [
+    ...equation.reactants.map(s => ({ key: `L:${speciesKey(s)}`, coefficient: s.coefficient })),
+    ...equation.products.map(s => ({ key: `R:${speciesKey(s)}`, coefficient: s.coefficient }))
+  ];
+  const reduced = reduceCoefficients(all.map(s => s.coefficient));
+  return new Map(all.map((s, i) => [s.key, reduced[i]]));
+}
+
+// ============================================================================
+// EXTRACTION AND GRADING
+// ============================================================================
+
+// Candidate final equations, most likely first: the extracted answer, then
+// arrow lines bottom-up, from the final-answer section when the response
+// states one and from the whole response otherwise
+function candidateEquations(response: string): string[] {
+  const extraction = extractAnswer(response);
+  const candidates: string[] = [];
+  if (extraction.answer && normalizeEquation(extraction.answer).includes(ARROW)) candidates.push(extraction.answer);
+
+  const text = extraction.stated ? extraction.region! : response;
+  candidates.push(...text.split('\n').filter(line => normalizeEquation(line).includes(ARROW)).reverse());
+  return candidates;
+}
+
+export function gradeEquation(response: string, expectedEquation: string): EquationGradeResult {
+  const expected = parseEquation(expectedEquation);
+  const expectedVector = coefficientVector(expected);
+
+  let equation: ChemicalEquation | null = null;
+  let lastError = 'No reaction arrow found in response';
+  for (const candidate of candidateEquations(response)) {
+    try {
+      equation = parseEquation(candidate);
+      break;
+    } catch (error: any) {
+      lastError = error.message;
+    }
+  }
+
+  if (!equation) {
+    return {
+      verdict: 'unparseable',
+      extractedEquation: null,
+      atomsBalanced: false,
+      chargeBalanced: false,
+      minimal: false,
+      imbalances: [],
+      detail: lastError
+    };
+  }
+
+  const { atomsBalanced, chargeBalanced, imbalances } = checkBalance(equation);
+  const coefficients = [...equation.reactants, ...equation.products].map(s => s.coefficient);
+  const minimal = reduceCoefficients(coefficients).every((c, i) => approxEqual(c, coefficients[i]));
+
+  const vector = coefficientVector(equation);
+  const sameSpecies = vector.size === expectedVector.size && [...expectedVector.keys()].every(k => vector.has(k));
+  const sameCoefficients = sameSpecies && [...expectedVector].every(([k, c]) => vector.get(k) === c);
+
+  let verdict: EquationVerdict;
+  if (!atomsBalanced || !chargeBalanced) verdict = 'unbalanced';
+  else if (!sameSpecies) verdict = 'wrong-species';
+  else if (!sameCoefficients) verdict = 'wrong-coefficients';
+  else verdict = minimal ? 'correct' : 'not-reduced';
+
+  return {
+    verdict,
+    extractedEquation: formatEquation(equation),
+    atomsBalanced,
+    chargeBalanced,
+    minimal,
+    imbalances
+  };
+}
@@ -0,0 +1,191 @@
+/**
+ * Final Answer Extraction
+ *
+ * Finds the model's final answer so graders judge that rather than any line
+ * of working. Rules are tried strongest first: the last \boxed{...}, an
+ * "Answer:" line, a "Final Answer" heading, the last display-math block, and
+ * finally a short trailing line. The result records which rule fired and how
+ * much to trust it, plus the final-answer region (from where the answer is
+ * stated to the end of the response) for graders that look for several
+ * values. A response whose separate answer statements disagree is flagged as
+ * conflicting; one with none of them is flagged as missing.
+ */
+
+export type ExtractionRule = 'boxed' | 'answer-line' | 'answer-heading' | 'display-math' | 'trailing-line';
+export type ExtractionStatus = 'found' | 'missing' | 'conflicting';
+
+export interface AnswerCandidate {
+  rule: ExtractionRule;
+  text: string; // Answer text with Markdown emphasis and $ delimiters removed
+  index: number; // Start of the line it was found on
+}
+
+export interface ExtractedAnswer {
+  status: ExtractionStatus;
+  answer: string | null;
+  rule: ExtractionRule | null;
+  confidence: number; // 0 when missing
+  stated: boolean; // Explicitly marked (boxed, answer line or heading) rather than inferred from position
+  region: string | null; // Final-answer section through the end of the response
+  candidates: AnswerCandidate[]; // Every candidate found, in response order
+  conflicts: string[]; // The disagreeing answers when conflicting
+}
+
+// Strongest first; the first rule with any candidate decides the answer
+export const EXTRACTION_RULES: ExtractionRule[] = ['boxed', 'answer-line', 'answer-heading', 'display-math', 'trailing-line'];
+
+const RULE_CONFIDENCE: Record<ExtractionRule, number> = {
+  'boxed': 0.95,
+  'answer-line': 0.9,
+  'answer-heading': 0.85,
+  'display-math': 0.5,
+  'trailing-line': 0.3
+};
+
+const STATED_RULES: ExtractionRule[] = ['boxed', 'answer-line', 'answer-heading'];
+
+// A trailing line longer than this is prose, not an answer
+const MAX_TRAILING_LINE = 200;
+
+// ============================================================================
+// CANDIDATES
+// ============================================================================
+
+function readBraced(text: string, openIndex: number): string | null {
+  let depth = 0;
+  for (let i = openIndex; i < text.length; i++) {
+    if (text[i] === '{') depth++;
+    if (text[i] === '}') {
+      depth--;
+      if (depth === 0) return text.slice(openIndex + 1, i);
+    }
+  }
+  return null;
+}
+
+const clean = (text: string) => text.replace(/\*\*/g, '').replace(/\$/g, '').trim();
+
+const HEADING = /^\s*#{1,6}\s/;
+const ANSWER_HEADING = /^\s*#{1,6}\s*(?:\*\*)?\s*(?:final\s+)?answers?\b\s*(?:\*\*)?\s*:?\s*(?:\*\*)?\s*(.*)$/i;
+const ANSWER_LINE = /\banswers?\s*(?:\*\*)?\s*:\s*(?:\*\*)?\s*(.*)$/i;
+const DISPLAY_MATH = /\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]/g;
+
+function findCandidates(response: string): AnswerCandidate[] {
+  const candidates: AnswerCandidate[] = [];
+  const lineStart = (index: number) => response.lastIndexOf('\n', index - 1) + 1;
+
+  for (let index = response.indexOf('\\boxed{'); index !== -1; index = response.indexOf('\\boxed{', index + 1)) {
+    const boxed = readBraced(response, index + '\\boxed'.length);
+    if (boxed !== null && boxed.trim()) candidates.push({ rule: 'boxed', text: boxed.trim(), index: lineStart(index) });
+  }
+
+  const lines = response.split('\n');
+  const offsets = lines.map((_, i) => lines.slice(0, i).reduce((sum, line) => sum + line.length + 1, 0));
+  const nextNonEmpty = (i: number) => lines.slice(i + 1).find(line => line.trim()) ?? '';
+
+  lines.forEach((line, i) => {
+    const heading = line.match(ANSWER_HEADING);
+    if (heading) {
+      // The heading's own text, else its body up to the next heading or rule
+      let text = heading[1];
+      if (!clean(text)) {
+        const end = lines.findIndex((l, j) => j > i && (HEADING.test(l) || /^\s*---+\s*$/.test(l)));
+        text = lines.slice(i + 1, end === -1 ? undefined : end).join('\n');
+      }
+      if (clean(text)) candidates.push({ rule: 'answer-heading', text: clean(text), index: offsets[i] });
+      return;
+    }
+    if (HEADING.test(line)) return;
+
+    const answer = line.match(ANSWER_LINE);
+    if (!answer) return;
+    // "**Answer:**" alone on its line introduces the next line
+    const text = clean(answer[1]) ? answer[1] : nextNonEmpty(i);
+    if (clean(text)) candidates.push({ rule: 'answer-line', text: clean(text), index: offsets[i] });
+  });
+
+  for (const match of response.matchAll(DISPLAY_MATH)) {
+    const text = (match[1] ?? match[2]).trim();
+    if (text) candidates.push({ rule: 'display-math', text, index: lineStart(match.index ?? 0) });
+  }
+
+  const lastIndex = lines.map(line => line.trim() !== '').lastIndexOf(true);
+  if (lastIndex !== -1) {
+    const last = lines[lastIndex].trim();
+    const structural = HEADING.test(last) || /^\|/.test(last) || /^[-*_=]{3,}$/.test(last);
+    if (!structural && last.length <= MAX_TRAILING_LINE) {
+      candidates.push({ rule: 'trailing-line', text: clean(last.replace(/^(?:[-*+]|\d+\.)\s+/, '')), index: offsets[lastIndex] });
+    }
+  }
+
+  return candidates.filter(c => c.text).sort((a, b) => a.index - b.index);
+}
+
+// ============================================================================
+// CONFLICTS
+// ============================================================================
+
+// Compare answers by content only: "**Answer:** $\boxed{3}$" states the same answer as "\boxed{3}"
+function normalizeAnswer(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/\\boxed\{/g, '{')
+    .replace(/\\(?:text|mathrm)\{([^{}]*)\}/g, '$1')
+    .replace(/\\(?:left|right|[,;:! ]|displaystyle)/g, '')
+    .replace(/[^a-z0-9=+^/().\\]/g, '')
+    .replace(/\.+$/, '');
+}
+
+// Separate statements of the final answer (answer lines, answer headings and
+// the last boxed value) conflict when neither contains the other. Several
+// boxed values on their own are a multi-part answer, not a conflict.
+function findConflicts(candidates: AnswerCandidate[]): string[] {
+  const boxed = candidates.filter(c => c.rule === 'boxed');
+  const statements = [
+    ...candidates.filter(c => c.rule === 'answer-line' || c.rule === 'answer-heading'),
+    ...boxed.slice(-1)
+  ];
+
+  const distinct: Array<{ text: string; normalized: string }> = [];
+  for (const { text } of statements) {
+    const normalized = normalizeAnswer(text);
+    if (!normalized) continue;
+    if (distinct.some(d => d.normalized.includes(normalized) || normalized.includes(d.normalized))) continue;
+    distinct.push({ text, normalized });
+  }
+  return distinct.length > 1 ? distinct.map(d => d.text) : [];
+}
+
+// ============================================================================
+// EXTRACTION
+// ============================================================================
+
+export function extractAnswer(response: string): ExtractedAnswer {
+  const candidates = findCandidates(response);
+  const rule = EXTRACTION_RULES.find(r => candidates.some(c => c.rule === r));
+  if (!rule) {
+    return { status: 'missing', answer: null, rule: null, confidence: 0, stated: false, region: null, candidates, conflicts: [] };
+  }
+
+  const fired = candidates.filter(c => c.rule === rule);
+  const chosen = fired[fired.length - 1];
+
+  // The region opens at the last answer line or heading at or before the
+  // answer; boxed values after that opening all belong to it (multi-part answers)
+  const opening = candidates
+    .filter(c => (c.rule === 'answer-line' || c.rule === 'answer-heading') && c.index <= chosen.index)
+    .pop();
+  const regionStart = opening?.index ?? (rule === 'boxed' ? fired[0].index : chosen.index);
+
+  const conflicts = findConflicts(candidates);
+  return {
+    status: conflicts.length > 0 ? 'conflicting' : 'found',
+    answer: chosen.text,
+    rule,
+    confidence: RULE_CONFIDENCE[rule],
+    stated: STATED_RULES.includes(rule),
+    region: response.slice(regionStart),
+    candidates,
+    conflicts
+  };
+}
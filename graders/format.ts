@@ -0,0 +1,446 @@
+/**
+ * Format Structure Analyzer
+ *
+ * Parses a response as Markdown with math extensions instead of looking for
+ * substrings. Lines are grouped into blocks (headings, GFM tables, list
+ * items, display math, code, paragraphs), inline math is found with pandoc's
+ * rule so "$5 and $10" is not math, and every math span is checked for
+ * LaTeX that would not render. On top of that, each domain's requested
+ * layout (e.g. physics: knowns table → find → equations → calculations →
+ * answer with units) is matched in order against the blocks.
+ */
+
+import { Domain } from '../dataset';
+import { extractAnswer } from './extraction';
+
+export type BlockKind = 'heading' | 'table' | 'list-item' | 'display-math' | 'code' | 'paragraph';
+
+export interface Block {
+  kind: BlockKind;
+  line: number; // 0-based line the block starts on
+  text: string;
+  level?: number; // Headings
+  ordered?: boolean; // List items
+  headers?: string[]; // Tables
+  wellFormed?: boolean; // Tables: header row, delimiter row and matching column counts
+  unclosed?: boolean; // Display math whose closing delimiter never comes
+}
+
+export interface LatexError {
+  source: string;
+  error: string;
+}
+
+export type SectionStatus = 'in-order' | 'out-of-order' | 'missing';
+
+export interface StructureCompliance {
+  score: number; // Sections found in the requested order / sections requested
+  checklist: number; // 0-10: weight of the sections present, in any order
+  missing: string[]; // Ids of the sections not found at all
+  sections: Array<{ id: string; description: string; weight: number; status: SectionStatus; line: number | null }>;
+}
+
+export interface FormatAnalysis {
+  headings: number;
+  tables: number; // Well-formed tables
+  malformedTables: number; // Pipe blocks without a valid header and delimiter row
+  displayMath: number;
+  inlineMath: number;
+  latexErrors: LatexError[];
+  numberedLists: number; // Ordered lists with at least two items
+  bulletedLists: number;
+  stepLabels: number; // "Step n" headings or labels
+  hasLatex: boolean;
+  hasBoxedAnswer: boolean; // A marked final answer: boxed, "Answer:" line or answer heading
+  hasSteps: boolean;
+  hasTables: boolean;
+  structure: StructureCompliance | null; // null when no domain is given
+}
+
+// ============================================================================
+// BLOCKS
+// ============================================================================
+
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const ORDERED_ITEM = /^\s*\d+[.)]\s+(.*)$/;
+const BULLET_ITEM = /^\s*[-*+]\s+(.*)$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const tableCells = (line: string) => line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+
+export function parseBlocks(response: string): Block[] {
+  const lines = response.split('\n');
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+  let paragraphStart = 0;
+
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push({ kind: 'paragraph', line: paragraphStart, text: paragraph.join('\n') });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (FENCE.test(line)) {
+      flush();
+      const fence = line.trim().slice(0, 3);
+      const end = lines.findIndex((l, j) => j > i && l.trim().startsWith(fence));
+      const last = end === -1 ? lines.length - 1 : end;
+      blocks.push({ kind: 'code', line: i, text: lines.slice(i + 1, last).join('\n') });
+      i = last;
+      continue;
+    }
+
+    // Display math opening a line: $$...$$, \[...\] or a \begin{...} environment.
+    // Environments keep their \begin/\end so the pairing can be checked.
+    const environment = trimmed.match(/^\\begin\{([\w*]+)\}/);
+    const delimiters = trimmed.startsWith('$$') ? ['$$', '$$']
+      : trimmed.startsWith('\\[') ? ['\\[', '\\]']
+      : environment ? ['', `\\end{${environment[1]}}`]
+      : null;
+    if (delimiters) {
+      flush();
+      const [open, close] = delimiters;
+      const text = lines.slice(i).join('\n').trim().slice(open.length);
+      const closeAt = text.indexOf(close);
+      if (closeAt === -1) {
+        // Never closed: flag this line and keep parsing the rest as Markdown
+        blocks.push({ kind: 'display-math', line: i, text: trimmed.slice(open.length).trim(), unclosed: true });
+        continue;
+      }
+      const body = text.slice(0, open ? closeAt : closeAt + close.length);
+      blocks.push({ kind: 'display-math', line: i, text: body.trim() });
+      const last = i + body.split('\n').length - 1;
+      // Text after the closing delimiter on the same line is ordinary prose
+      const rest = text.slice(closeAt + close.length).split('\n')[0].trim();
+      if (rest) blocks.push({ kind: 'paragraph', line: last, text: rest });
+      i = last;
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      flush();
+      blocks.push({ kind: 'heading', line: i, level: heading[1].length, text: heading[2] });
+      continue;
+    }
+
+    if (trimmed.includes('|') && (trimmed.startsWith('|') || TABLE_DELIMITER.test(lines[i + 1] ?? ''))) {
+      flush();
+      let end = i;
+      while (end + 1 < lines.length && lines[end + 1].includes('|') && lines[end + 1].trim()) end++;
+      const rows = lines.slice(i, end + 1);
+      const headers = tableCells(rows[0]);
+      const wellFormed = rows.length >= 2 && TABLE_DELIMITER.test(rows[1]) && tableCells(rows[1]).length === headers.length;
+      blocks.push({ kind: 'table', line: i, text: rows.join('\n'), headers, wellFormed });
+      i = end;
+      continue;
+    }
+
+    if (RULE.test(line) || !trimmed) {
+      flush();
+      continue;
+    }
+
+    const ordered = line.match(ORDERED_ITEM);
+    const bullet = ordered ? null : line.match(BULLET_ITEM);
+    if (ordered || bullet) {
+      flush();
+      blocks.push({ kind: 'list-item', line: i, ordered: !!ordered, text: (ordered ?? bullet)![1] });
+      continue;
+    }
+
+    if (paragraph.length === 0) paragraphStart = i;
+    paragraph.push(line);
+  }
+  flush();
+  return blocks;
+}
+
+// ============================================================================
+// MATH
+// ============================================================================
+
+// Pandoc's rule: the opening $ is followed by a non-space, the closing $ is
+// preceded by one and not followed by a digit, so currency is left alone
+const INLINE_DOLLAR = /(?<![\\$\w])\$(?=[^\s$])((?:\\\$|[^$\n])*?[^\s\\])\$(?![\d$])/g;
+const INLINE_PAREN = /\\\(([\s\S]+?)\\\)/g;
+const INLINE_DISPLAY = /\$\$([^$]+?)\$\$/g;
+
+const withoutCode = (text: string) => text.replace(/`[^`]*`/g, '');
+
+function inlineMath(text: string): { inline: string[]; display: string[] } {
+  const display = [...withoutCode(text).matchAll(INLINE_DISPLAY)].map(m => m[1]);
+  const rest = withoutCode(text).replace(INLINE_DISPLAY, ' ');
+  return {
+    inline: [...[...rest.matchAll(INLINE_DOLLAR)].map(m => m[1]), ...[...rest.matchAll(INLINE_PAREN)].map(m => m[1])],
+    display
+  };
+}
+
+// Reads one macro argument at `i`: a braced group or a single token
+function skipArgument(source: string, i: number): number | null {
+  while (source[i] === ' ') i++;
+  if (i >= source.length || source[i] === '}') return null;
+  if (source[i] === '{') {
+    let depth = 0;
+    for (let j = i; j < source.length; j++) {
+      if (source[j] === '{') depth++;
+      if (source[j] === '}' && --depth === 0) return j + 1;
+    }
+    return null;
+  }
+  if (source[i] === '\\') return i + 1 + (source.slice(i + 1).match(/^[A-Za-z]+|^./)?.[0].length ?? 0);
+  return i + 1;
+}
+
+const TWO_ARGUMENT_MACROS = /\\(?:[dt]?frac|binom)(?![A-Za-z])/g;
+
+// Why the LaTeX would fail to render, or null: unbalanced braces, unpaired
+// \left/\right or \begin/\end, a fraction missing an argument, a dangling ^ or _
+export function latexError(source: string): string | null {
+  const text = source.replace(/\\[\\{}$%&#_ ]/g, '  ');
+
+  let depth = 0;
+  for (const ch of text) {
+    if (ch === '{') depth++;
+    if (ch === '}' && --depth < 0) return 'unbalanced braces: unexpected }';
+  }
+  if (depth > 0) return `unbalanced braces: ${depth} unclosed {`;
+
+  const lefts = (text.match(/\\left(?![A-Za-z])/g) ?? []).length;
+  const rights = (text.match(/\\right(?![A-Za-z])/g) ?? []).length;
+  if (lefts !== rights) return `${lefts} \\left but ${rights} \\right`;
+
+  const environments: string[] = [];
+  for (const [, kind, name] of text.matchAll(/\\(begin|end)\{([^}]*)\}/g)) {
+    if (kind === 'begin') environments.push(name);
+    else if (environments.pop() !== name) return `\\end{${name}} without matching \\begin`;
+  }
+  if (environments.length > 0) return `\\begin{${environments[environments.length - 1]}} is never closed`;
+
+  for (const match of text.matchAll(TWO_ARGUMENT_MACROS)) {
+    const first = skipArgument(text, (match.index ?? 0) + match[0].length);
+    if (first === null || skipArgument(text, first) === null) return `${match[0]} needs two arguments`;
+  }
+
+  if (/[\^_]\s*(?:$|[}&])/.test(text)) return 'superscript or subscript without an argument';
+  return null;
+}
+
+// ============================================================================
+// DOMAIN STRUCTURE
+// ============================================================================
+
+interface StructureSection {
+  id: string;
+  description: string;
+  weight: number; // Share of the domain's 10-point format checklist
+  find: (blocks: Block[], from: number) => number; // Line of the first match at or after `from`, or -1
+}
+
+// Text a block offers as a section label: a heading, a leading **bold** phrase,
+// or the words before a colon, e.g. "**Find:**", "1. Location:", "Calculations:"
+function blockLabel(block: Block): string | null {
+  if (block.kind === 'heading') return block.text;
+  if (block.kind !== 'paragraph' && block.kind !== 'list-item') return null;
+  const first = block.text.split('\n')[0].trim();
+  const bold = first.match(/^\*\*([^*]+)\*\*/);
+  if (bold) return bold[1];
+  const colon = first.match(/^([^:.]{1,40}):/);
+  return colon ? colon[1] : null;
+}
+
+const UNIT_VALUE = /\d(?:\.\d+)?\$?\s*(?:\\text\{\s*|\\,|\\ |~)?(?:[kmcμµn]?(?:m|g|s|N|J|W|Pa|Hz|L|mol|K|A|V|C|Ω)(?![A-Za-z])|°|rad\b|M\b)/;
+const ARROW = /→|⟶|->|\\(?:rightarrow|longrightarrow|to)(?![A-Za-z])/;
+
+// Headings, **bold** leads and numbered items open a section; a plain
+// "Mass: 2 kg" bullet inside one does not
+const opensSection = (block: Block) =>
+  block.kind === 'heading' || (blockLabel(block) !== null && (block.text.trimStart().startsWith('**') || !!block.ordered));
+
+// The blocks after line `at`, up to the start of the next section
+function sectionAfter(blocks: Block[], at: number): Block[] {
+  const start = blocks.findIndex(b => b.line >= at);
+  if (start === -1) return [];
+  const end = blocks.findIndex((b, i) => i > start && opensSection(b));
+  return blocks.slice(start, end === -1 ? undefined : end);
+}
+
+const labelled = (pattern: RegExp, requires?: (section: Block[]) => boolean) =>
+  (blocks: Block[], from: number) => {
+    for (const block of blocks) {
+      if (block.line < from) continue;
+      const label = blockLabel(block);
+      if (label && pattern.test(label) && (!requires || requires(sectionAfter(blocks, block.line)))) return block.line;
+    }
+    return -1;
+  };
+
+const tableMatching = (pattern: RegExp) =>
+  (blocks: Block[], from: number) =>
+    blocks.find(b => b.line >= from && b.kind === 'table' && b.wellFormed && pattern.test(b.headers!.join(' ')))?.line ?? -1;
+
+// Whichever detector matches first
+const either = (...finders: Array<StructureSection['find']>) =>
+  (blocks: Block[], from: number) => {
+    const lines = finders.map(find => find(blocks, from)).filter(line => line !== -1);
+    return lines.length > 0 ? Math.min(...lines) : -1;
+  };
+
+const STEP_LABEL = /^\s*step\s*\d/i;
+const STEPS_HEADING = /step[-\s]by[-\s]step|^\s*(?:solution\s+)?steps\b/i;
+
+const hasTable = (section: Block[]) => section.some(b => b.kind === 'table' && b.wellFormed);
+const hasUnits = (section: Block[]) => section.some(b => UNIT_VALUE.test(b.text));
+const firstBlock = (test: (block: Block) => boolean) =>
+  (blocks: Block[], from: number) => blocks.find(b => b.line >= from && test(b))?.line ?? -1;
+
+// Working split under two or more headings other than the answer's also reads as steps
+function sectionedWorking(blocks: Block[], from: number): number {
+  const headings = blocks.filter(b => b.line >= from && b.kind === 'heading' && !/answer/i.test(b.text));
+  return headings.length >= 2 ? headings[0].line : -1;
+}
+
+// The layouts the default template's instructions ask for, in order. The
+// weights make each domain's checklist out of 10, with the sections the
+// instructions single out (boxed answer, atom tables, steps table) weighted higher.
+export const DOMAIN_STRUCTURE: Record<Domain, StructureSection[]> = {
+  math: [
+    { id: 'steps', description: 'step-by-step working', weight: 3, find: either(labelled(STEP_LABEL), labelled(STEPS_HEADING), firstBlock(b => b.kind === 'list-item' && !!b.ordered), sectionedWorking) },
+    { id: 'latex', description: 'working in LaTeX', weight: 3, find: firstBlock(b => b.kind === 'display-math' || inlineMath(b.text).inline.length > 0) },
+    { id: 'boxed', description: 'boxed final answer', weight: 4, find: firstBlock(b => b.text.includes('\\boxed')) }
+  ],
+  physics: [
+    { id: 'knowns', description: 'known quantities table', weight: 2, find: either(labelled(/known|given|quantit/i, hasTable), tableMatching(/known|given|quantit/i)) },
+    { id: 'find', description: 'what to find', weight: 2, find: labelled(/\bfind\b|unknown|asked|goal/i) },
+    { id: 'equations', description: 'relevant equations', weight: 2, find: labelled(/equation|formula|principle/i) },
+    { id: 'calculations', description: 'calculations', weight: 2, find: either(labelled(/calculat|comput|substitut/i), labelled(STEP_LABEL)) },
+    { id: 'answer', description: 'final answer with units', weight: 2, find: labelled(/answer|result/i, hasUnits) }
+  ],
+  chemistry: [
+    { id: 'unbalanced', description: 'unbalanced equation', weight: 2, find: either(labelled(/unbalanced|skeleton/i), firstBlock(b => ARROW.test(b.text) && b.kind !== 'table')) },
+    { id: 'atom-count', description: 'atom count table', weight: 3, find: tableMatching(/atom|element|species/i) },
+    { id: 'balance', description: 'systematic balancing', weight: 2, find: either(labelled(/balanc/i), firstBlock(b => ARROW.test(b.text) && b.kind !== 'table')) },
+    { id: 'verify', description: 'verification table', weight: 3, find: either(labelled(/verif|check/i, hasTable), tableMatching(/atom|element|species/i)) }
+  ],
+  biology: [
+    { id: 'overview', description: 'brief overview', weight: 2, find: labelled(/overview|summary|introduction|definition/i) },
+    { id: 'location', description: 'location', weight: 2, find: labelled(/location|where|site|occurs/i) },
+    { id: 'steps-table', description: 'steps or components table', weight: 3, find: firstBlock(b => b.kind === 'table' && !!b.wellFormed) },
+    { id: 'molecules', description: 'key molecules and factors', weight: 3, find: labelled(/molecule|factor|enzyme|player|involved|component/i) }
+  ]
+};
+
+// Greedy in-order match: each section must start after the previous one found.
+// A section present only before its predecessor counts as out of order, but
+// not on a line another section already matched (one atom table is not two).
+export function checkStructure(blocks: Block[], domain: Domain): StructureCompliance {
+  let position = 0;
+  const claimed = new Set<number>();
+  const sections = DOMAIN_STRUCTURE[domain].map(section => {
+    const line = section.find(blocks, position);
+    if (line !== -1) {
+      position = line + 1;
+      claimed.add(line);
+      return { id: section.id, description: section.description, weight: section.weight, status: 'in-order' as SectionStatus, line };
+    }
+    let anywhere = section.find(blocks, 0);
+    while (claimed.has(anywhere)) anywhere = section.find(blocks, anywhere + 1);
+    return {
+      id: section.id,
+      description: section.description,
+      weight: section.weight,
+      status: (anywhere === -1 ? 'missing' : 'out-of-order') as SectionStatus,
+      line: anywhere === -1 ? null : anywhere
+    };
+  });
+  const present = sections.filter(s => s.status !== 'missing');
+  const total = sections.reduce((sum, s) => sum + s.weight, 0);
+  return {
+    score: sections.filter(s => s.status === 'in-order').length / sections.length,
+    checklist: (10 * present.reduce((sum, s) => sum + s.weight, 0)) / total,
+    missing: sections.filter(s => s.status === 'missing').map(s => s.id),
+    sections
+  };
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+export function analyzeFormat(response: string, domain?: Domain): FormatAnalysis {
+  const blocks = parseBlocks(response);
+
+  const mathSources: string[] = [];
+  let displayMath = 0;
+  let inlineCount = 0;
+  const unclosed: string[] = [];
+  for (const block of blocks) {
+    if (block.kind === 'code') continue;
+    if (block.kind === 'display-math') {
+      displayMath++;
+      if (block.unclosed) unclosed.push(block.text);
+      else mathSources.push(block.text);
+      continue;
+    }
+    const { inline, display } = inlineMath(block.text);
+    displayMath += display.length;
+    inlineCount += inline.length;
+    mathSources.push(...display, ...inline);
+  }
+  const excerpt = (source: string) => source.length > 80 ? source.slice(0, 77) + '...' : source;
+  const latexErrors: LatexError[] = [
+    ...unclosed.map(source => ({ source: excerpt(source), error: 'display math is never closed' })),
+    ...mathSources.flatMap(source => {
+      const error = latexError(source);
+      return error ? [{ source: excerpt(source), error }] : [];
+    })
+  ];
+
+  // Consecutive items of one kind form a list; a blank line between items does not end it
+  const lists = { ordered: 0, bullet: 0 };
+  let run: { ordered: boolean; items: number } | null = null;
+  const closeRun = () => {
+    if (run && run.items >= 2) lists[run.ordered ? 'ordered' : 'bullet']++;
+    run = null;
+  };
+  for (const block of blocks) {
+    if (block.kind !== 'list-item') {
+      closeRun();
+      continue;
+    }
+    if (run && run.ordered === block.ordered) run.items++;
+    else {
+      closeRun();
+      run = { ordered: !!block.ordered, items: 1 };
+    }
+  }
+  closeRun();
+
+  const stepLabels = blocks.filter(b => STEP_LABEL.test(blockLabel(b) ?? '')).length;
+  const stepsHeading = blocks.some(b => b.kind === 'heading' && STEPS_HEADING.test(b.text));
+  const numberedHeadings = blocks.filter(b => b.kind === 'heading' && /^\s*\d+[.)]/.test(b.text)).length;
+  const tables = blocks.filter(b => b.kind === 'table');
+
+  return {
+    headings: blocks.filter(b => b.kind === 'heading').length,
+    tables: tables.filter(t => t.wellFormed).length,
+    malformedTables: tables.filter(t => !t.wellFormed).length,
+    displayMath,
+    inlineMath: inlineCount,
+    latexErrors,
+    numberedLists: lists.ordered,
+    bulletedLists: lists.bullet,
+    stepLabels,
+    hasLatex: displayMath + inlineCount > 0,
+    hasBoxedAnswer: extractAnswer(response).stated,
+    hasSteps: stepLabels >= 2 || stepsHeading || lists.ordered > 0 || numberedHeadings >= 2,
+    hasTables: tables.some(t => t.wellFormed),
+    structure: domain ? checkStructure(blocks, domain) : null
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * LLM-as-Judge Grader
+ *
+ * Asks a judge model whether a response reaches the reference answer and
+ * records a structured verdict. Backends are pluggable: model judges go
+ * through the shared provider layer, and the stub judge is a deterministic
+ * local heuristic so the pipeline can run offline.
+ */
+
+import { callModel } from '../providers';
+
+export interface JudgeRequest {
+  problemId: string;
+  problem: string;
+  referenceAnswer: string;
+  response: string;
+}
+
+export interface JudgeVerdict {
+  correct: boolean | null; // null when the judge failed or its output couldn't be parsed
+  confidence: number; // 0-1
+  rationale: string;
+}
+
+export interface JudgeBackend {
+  name: string;
+  judge(request: JudgeRequest): Promise<JudgeVerdict>;
+}
+
+export type JudgeName = string; // 'stub' or a model name from providers/models.json
+
+// ============================================================================
+// PROMPT + PARSING
+// ============================================================================
+
+// The problem statement is the last "**Problem:**" / "**Topic:**" line of an
+// experiment prompt; everything before it is instructions and examples
+export function extractProblemStatement(prompt: string): string {
+  const matches = [...prompt.matchAll(/\*\*(?:Problem|Topic):\*\*\s*(.+)/g)];
+  return matches.length > 0 ? matches[matches.length - 1][1].trim() : prompt.trim();
+}
+
+export function buildJudgePrompt(request: JudgeRequest): string {
+  return `You are grading a student's answer to a STEM problem. Decide whether the response reaches an answer equivalent to the reference answer. Ignore formatting and presentation; equivalent algebraic forms, unit conversions and rounding within 1% count as correct. For explanations, the response must cover the key points of the reference without stating anything false.
+
+**Problem:** ${request.problem}
+
+**Reference answer:** ${request.referenceAnswer}
+
+**Response:**
+${request.response}
+
+Reply with only a JSON object of the form:
+{"correct": true or false, "confidence": number between 0 and 1, "rationale": "one sentence"}`;
+}
+
+export function parseJudgeVerdict(output: string): JudgeVerdict {
+  const failed = (rationale: string): JudgeVerdict => ({ correct: null, confidence: 0, rationale });
+
+  const json = output.match(/\{[\s\S]*\}/);
+  if (!json) return failed(`Judge output had no JSON object: ${output.slice(0, 100)}`);
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json[0]);
+  } catch (error: any) {
+    return failed(`Judge output was not valid JSON: ${error.message}`);
+  }
+
+  if (typeof parsed.correct !== 'boolean') return failed('Judge output is missing a boolean "correct"');
+
+  const confidence = typeof parsed.confidence === 'number' ? Math.min(1, Math.max(0, parsed.confidence)) : 0.5;
+  const rationale = typeof parsed.rationale === 'string' ? parsed.rationale : '';
+  return { correct: parsed.correct, confidence, rationale };
+}
+
+// ============================================================================
+// BACKENDS
+// ============================================================================
+
+export function createModelJudge(model: string): JudgeBackend {
+  return {
+    name: model,
+    async judge(request) {
+      const { response } = await callModel(model, buildJudgePrompt(request), { temperature: 0 });
+      if (response.startsWith('ERROR')) {
+        return { correct: null, confidence: 0, rationale: response };
+      }
+      return parseJudgeVerdict(response);
+    }
+  };
+}
+
+const tokenize = (text: string) => text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+
+// Deterministic offline judge: the share of reference-answer tokens that
+// appear in the response. Crude, but stable across runs and needs no network.
+export function createStubJudge(threshold = 0.6): JudgeBackend {
+  return {
+    name: 'stub',
+    async judge(request) {
+      const referenceTokens = [...new Set(tokenize(request.referenceAnswer))];
+      const responseTokens = new Set(tokenize(request.response));
+      const found = referenceTokens.filter(token => responseTokens.has(token));
+      const overlap = referenceTokens.length > 0 ? found.length / referenceTokens.length : 0;
+      const correct = overlap >= threshold;
+
+      return {
+        correct,
+        confidence: Math.abs(overlap - threshold) / Math.max(threshold, 1 - threshold),
+        rationale: `${found.length}/${referenceTokens.length} reference tokens present in response`
+      };
+    }
+  };
+}
+
+export function createJudge(name: JudgeName): JudgeBackend {
+  return name === 'stub' ? createStubJudge() : createModelJudge(name);
+}
+
+// ============================================================================
+// AGREEMENT
+// ============================================================================
+
+export interface JudgeAgreement {
+  bothCorrect: number;
+  bothIncorrect: number;
+  ruleOnlyCorrect: number; // Rule-based grader passed, judge failed the response
+  judgeOnlyCorrect: number; // Judge passed, rule-based grader failed the response
+  judgeErrors: number;
+  agreementRate: number;
+  kappa: number; // Cohen's kappa over responses the judge could grade
+}
+
+export function compareWithRules(pairs: Array<{ rule: boolean; judge: JudgeVerdict }>): JudgeAgreement {
+  const graded = pairs.filter(p => p.judge.correct !== null);
+  const count = (rule: boolean, judge: boolean) =>
+    graded.filter(p => p.rule === rule && p.judge.correct === judge).length;
+
+  const bothCorrect = count(true, true);
+  const bothIncorrect = count(false, false);
+  const ruleOnlyCorrect = count(true, false);
+  const judgeOnlyCorrect = count(false, true);
+  const n = graded.length;
+
+  const observed = n > 0 ? (bothCorrect + bothIncorrect) / n : 0;
+  const ruleRate = n > 0 ? (bothCorrect + ruleOnlyCorrect) / n : 0;
+  const judgeRate = n > 0 ? (bothCorrect + judgeOnlyCorrect) / n : 0;
+  const expected = ruleRate * judgeRate + (1 - ruleRate) * (1 - judgeRate);
+
+  return {
+    bothCorrect,
+    bothIncorrect,
+    ruleOnlyCorrect,
+    judgeOnlyCorrect,
+    judgeErrors: pairs.length - n,
+    agreementRate: observed,
+    kappa: expected < 1 ? (observed - expected) / (1 - expected) : 1
+  };
+}
@@ -0,0 +1,684 @@
+/**
+ * Symbolic Math Grader
+ *
+ * Takes the final answer found by the shared extractor, parses it as a LaTeX or
+ * plain-text expression and checks it against the reference answer. Answers
+ * are first compared by symbolic simplification; anything the simplifier
+ * can't settle is decided by evaluating both sides at random points.
+ */
+
+import { extractAnswer } from './extraction';
+
+export type MathVerdict = 'equivalent' | 'not-equivalent' | 'unparseable';
+
+export interface MathGradeResult {
+  verdict: MathVerdict;
+  extractedAnswer: string | null;
+  method: 'symbolic' | 'numeric' | null;
+  constantOfIntegration: 'present' | 'missing' | 'not-required';
+  detail?: string;
+}
+
+// ============================================================================
+// EXPRESSION TREE
+// ============================================================================
+
+export type Expr =
+  | { kind: 'num'; value: number }
+  | { kind: 'sym'; name: string }
+  | { kind: 'add'; terms: Expr[] }
+  | { kind: 'mul'; factors: Expr[] }
+  | { kind: 'pow'; base: Expr; exponent: Expr }
+  | { kind: 'call'; fn: string; arg: Expr };
+
+export class MathParseError extends Error {}
+
+const num = (value: number): Expr => ({ kind: 'num', value });
+const neg = (arg: Expr): Expr => ({ kind: 'mul', factors: [num(-1), arg] });
+const inverse = (arg: Expr): Expr => ({ kind: 'pow', base: arg, exponent: num(-1) });
+
+const FUNCTIONS = [
+  'arcsin', 'arccos', 'arctan', 'sinh', 'cosh', 'tanh',
+  'sin', 'cos', 'tan', 'sec', 'csc', 'cot', 'exp', 'sqrt', 'ln', 'log'
+];
+
+const GREEK = new Set([
+  'alpha', 'beta', 'gamma', 'delta', 'theta', 'lambda', 'mu', 'sigma', 'phi', 'omega', 'tau'
+]);
+
+// Symbols treated as an arbitrary constant of integration
+const INTEGRATION_CONSTANTS = new Set(['C', 'K', 'c', 'C_1']);
+
+// ============================================================================
+// ANSWER EXTRACTION
+// ============================================================================
+
+// The shared extractor (graders/extraction.ts) decides what the final answer is
+export function extractFinalAnswer(response: string): string | null {
+  return extractAnswer(response).answer;
+}
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+const SUPERSCRIPTS: Record<string, string> = {
+  '⁰': '0', '¹': '1', '²': '2', '³': '3', '⁴': '4', '⁵': '5', '⁶': '6', '⁷': '7', '⁸': '8', '⁹': '9',
+  'ˣ': 'x', 'ⁿ': 'n', '⁻': '-', '⁺': '+'
+};
+
+function normalizeSource(source: string): string {
+  let text = source
+    .replace(/\$/g, '')
+    .replace(/\\(?:text|mathrm|operatorname|mathit)\{([^{}]*)\}/g, '$1')
+    .replace(/\\[dt]frac/g, '\\frac')
+    .replace(/\\left\.|\\right\./g, '')
+    .replace(/\\(?:left|right|big|Big|bigg|Bigg|displaystyle)/g, '')
+    .replace(/\\[,;:! ]|\\q?quad/g, ' ')
+    .replace(/\\cdot|\\times|[·⋅×]/g, '*')
+    .replace(/÷/g, '/')
+    .replace(/−/g, '-')
+    .replace(/π/g, '\\pi ')
+    .replace(/√/g, '\\sqrt ')
+    .replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹ˣⁿ⁻⁺]+/g, run => `^{${[...run].map(c => SUPERSCRIPTS[c]).join('')}}`);
+
+  // Keep the right-hand side of "f'(x) = ..." or "... \approx ..."
+  const sides = text.split(/=|\\approx/);
+  text = sides[sides.length - 1];
+
+  return text.replace(/[.,;\s]+$/, '').trim();
+}
+
+type Token =
+  | { type: 'num'; value: number }
+  | { type: 'ident'; value: string }
+  | { type: 'cmd'; value: string }
+  | { type: 'op'; value: string };
+
+function splitLetters(run: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < run.length) {
+    const fn = FUNCTIONS.find(name => run.startsWith(name, i));
+    if (fn) {
+      tokens.push({ type: 'cmd', value: fn });
+      i += fn.length;
+    } else if (run.startsWith('pi', i)) {
+      tokens.push({ type: 'cmd', value: 'pi' });
+      i += 2;
+    } else {
+      tokens.push({ type: 'ident', value: run[i] });
+      i++;
+    }
+  }
+  return tokens;
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (/[0-9.]/.test(ch)) {
+      const match = text.slice(i).match(/^\d*\.?\d+/);
+      if (!match) throw new MathParseError(`Bad number at "${text.slice(i, i + 10)}"`);
+      tokens.push({ type: 'num', value: parseFloat(match[0]) });
+      i += match[0].length;
+    } else if (ch === '\\') {
+      const match = text.slice(i + 1).match(/^[A-Za-z]+/);
+      if (!match) throw new MathParseError(`Unknown control sequence at "${text.slice(i, i + 10)}"`);
+      tokens.push({ type: 'cmd', value: match[0] });
+      i += match[0].length + 1;
+    } else if (/[A-Za-z]/.test(ch)) {
+      const match = text.slice(i).match(/^[A-Za-z]+/)!;
+      tokens.push(...splitLetters(match[0]));
+      i += match[0].length;
+    } else if ('+-*/^()[]{}|_'.includes(ch)) {
+      tokens.push({ type: 'op', value: ch });
+      i++;
+    } else {
+      throw new MathParseError(`Unexpected character "${ch}"`);
+    }
+  }
+
+  return tokens;
+}
+
+export function parseExpression(source: string): Expr {
+  const tokens = tokenize(normalizeSource(source));
+  let pos = 0;
+
+  const peek = (): Token | undefined => tokens[pos];
+  const isOp = (value: string) => peek()?.type === 'op' && peek()!.value === value;
+  const expectOp = (value: string) => {
+    if (!isOp(value)) throw new MathParseError(`Expected "${value}"`);
+    pos++;
+  };
+
+  const CLOSERS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+
+  const startsPrimary = (): boolean => {
+    const token = peek();
+    if (!token) return false;
+    if (token.type !== 'op') return true;
+    return token.value in CLOSERS;
+  };
+
+  function parseGroup(): Expr {
+    const open = peek();
+    if (open?.type === 'op' && open.value in CLOSERS) {
+      pos++;
+      const inner = parseSum();
+      expectOp(CLOSERS[open.value]);
+      return inner;
+    }
+    return parsePrimary();
+  }
+
+  function parseSubscript(): string {
+    pos++;
+    const token = peek();
+    if (isOp('{')) {
+      const start = pos + 1;
+      while (pos < tokens.length && !isOp('}')) pos++;
+      const parts = tokens.slice(start, pos).map(t => String(t.value));
+      expectOp('}');
+      return parts.join('');
+    }
+    if (!token) throw new MathParseError('Dangling subscript');
+    pos++;
+    return String(token.value);
+  }
+
+  function parseFunction(fn: string): Expr {
+    let power: Expr | null = null;
+    if (isOp('^')) {
+      pos++;
+      power = parseExponent();
+    }
+
+    let arg: Expr;
+    if (isOp('(') || isOp('[') || isOp('{')) {
+      arg = parseGroup();
+    } else if (isOp('|')) {
+      arg = parsePrimary();
+    } else {
+      // Unparenthesized argument: "\ln x", "\sin 2x"
+      const factors: Expr[] = [parsePower()];
+      while (peek() && (peek()!.type === 'num' || peek()!.type === 'ident')) {
+        factors.push(parsePower());
+      }
+      arg = factors.length === 1 ? factors[0] : { kind: 'mul', factors };
+    }
+
+    let call: Expr;
+    if (fn === 'sqrt') call = { kind: 'pow', base: arg, exponent: num(0.5) };
+    else if (fn === 'exp') call = { kind: 'pow', base: { kind: 'sym', name: 'e' }, exponent: arg };
+    else call = { kind: 'call', fn: fn === 'log' ? 'ln' : fn, arg };
+
+    return power ? { kind: 'pow', base: call, exponent: power } : call;
+  }
+
+  function parsePrimary(): Expr {
+    const token = peek();
+    if (!token) throw new MathParseError('Unexpected end of expression');
+    pos++;
+
+    if (token.type === 'num') return num(token.value);
+
+    if (token.type === 'ident') {
+      let name = token.value;
+      if (isOp('_')) name += '_' + parseSubscript();
+      return { kind: 'sym', name };
+    }
+
+    if (token.type === 'cmd') {
+      const cmd = token.value;
+      if (cmd === 'frac') {
+        const numerator = parseGroup();
+        const denominator = parseGroup();
+        return { kind: 'mul', factors: [numerator, inverse(denominator)] };
+      }
+      if (cmd === 'sqrt' && isOp('[')) {
+        pos++;
+        const index = parseSum();
+        expectOp(']');
+        return { kind: 'pow', base: parseGroup(), exponent: inverse(index) };
+      }
+      if (cmd === 'sqrt') return { kind: 'pow', base: parseGroup(), exponent: num(0.5) };
+      if (cmd === 'pi') return { kind: 'sym', name: 'pi' };
+      if (cmd === 'infty') return num(Infinity);
+      if (GREEK.has(cmd)) return { kind: 'sym', name: cmd };
+      if (FUNCTIONS.includes(cmd)) return parseFunction(cmd);
+      throw new MathParseError(`Unsupported command \\${cmd}`);
+    }
+
+    if (token.value in CLOSERS) {
+      const inner = parseSum();
+      expectOp(CLOSERS[token.value]);
+      return inner;
+    }
+    if (token.value === '|') {
+      const inner = parseSum();
+      expectOp('|');
+      return { kind: 'call', fn: 'abs', arg: inner };
+    }
+
+    throw new MathParseError(`Unexpected "${token.value}"`);
+  }
+
+  function parseExponent(): Expr {
+    if (isOp('-')) {
+      pos++;
+      return neg(parseExponent());
+    }
+    return parseGroup();
+  }
+
+  function parsePower(): Expr {
+    const base = parsePrimary();
+    if (!isOp('^')) return base;
+    pos++;
+    return { kind: 'pow', base, exponent: parseExponent() };
+  }
+
+  function parseUnary(): Expr {
+    if (isOp('-')) {
+      pos++;
+      return neg(parseUnary());
+    }
+    if (isOp('+')) {
+      pos++;
+      return parseUnary();
+    }
+    return parsePower();
+  }
+
+  function parseProduct(): Expr {
+    const factors: Expr[] = [parseUnary()];
+    while (true) {
+      if (isOp('*')) {
+        pos++;
+        factors.push(parseUnary());
+      } else if (isOp('/')) {
+        pos++;
+        factors.push(inverse(parseUnary()));
+      } else if (startsPrimary()) {
+        factors.push(parsePower());
+      } else {
+        break;
+      }
+    }
+    return factors.length === 1 ? factors[0] : { kind: 'mul', factors };
+  }
+
+  function parseSum(): Expr {
+    const terms: Expr[] = [parseProduct()];
+    while (isOp('+') || isOp('-')) {
+      const op = peek()!.value;
+      pos++;
+      const term = parseProduct();
+      terms.push(op === '-' ? neg(term) : term);
+    }
+    return terms.length === 1 ? terms[0] : { kind: 'add', terms };
+  }
+
+  if (tokens.length === 0) throw new MathParseError('Empty expression');
+  const expr = parseSum();
+  if (pos < tokens.length) {
+    throw new MathParseError(`Unexpected trailing input "${String(tokens[pos].value)}"`);
+  }
+  return expr;
+}
+
+// ============================================================================
+// SIMPLIFICATION
+// ============================================================================
+
+export function printExpr(expr: Expr): string {
+  switch (expr.kind) {
+    case 'num':
+      return String(Number(expr.value.toPrecision(12)));
+    case 'sym':
+      return expr.name;
+    case 'add':
+      return `(${expr.terms.map(printExpr).join(' + ')})`;
+    case 'mul':
+      return `(${expr.factors.map(printExpr).join(' * ')})`;
+    case 'pow':
+      return `${printExpr(expr.base)}^${printExpr(expr.exponent)}`;
+    case 'call':
+      return `${expr.fn}(${printExpr(expr.arg)})`;
+  }
+}
+
+// Split a term into numeric coefficient and symbolic remainder
+function splitCoefficient(term: Expr): { coefficient: number; rest: Expr | null } {
+  if (term.kind === 'num') return { coefficient: term.value, rest: null };
+  if (term.kind !== 'mul') return { coefficient: 1, rest: term };
+
+  let coefficient = 1;
+  const rest: Expr[] = [];
+  for (const factor of term.factors) {
+    if (factor.kind === 'num') coefficient *= factor.value;
+    else rest.push(factor);
+  }
+  if (rest.length === 0) return { coefficient, rest: null };
+  return { coefficient, rest: rest.length === 1 ? rest[0] : { kind: 'mul', factors: rest } };
+}
+
+function buildTerm(coefficient: number, rest: Expr | null): Expr {
+  if (rest === null) return num(coefficient);
+  if (coefficient === 1) return rest;
+  const factors = rest.kind === 'mul' ? rest.factors : [rest];
+  return { kind: 'mul', factors: [num(coefficient), ...factors] };
+}
+
+const MAX_EXPANDED_TERMS = 64;
+
+function simplifyAdd(terms: Expr[]): Expr {
+  const flat = terms.flatMap(t => (t.kind === 'add' ? t.terms : [t]));
+  const collected = new Map<string, { coefficient: number; rest: Expr | null }>();
+
+  for (const term of flat) {
+    const { coefficient, rest } = splitCoefficient(term);
+    const key = rest === null ? '#' : printExpr(rest);
+    const existing = collected.get(key);
+    if (existing) existing.coefficient += coefficient;
+    else collected.set(key, { coefficient, rest });
+  }
+
+  const result = [...collected.entries()]
+    .filter(([, { coefficient }]) => Math.abs(coefficient) > 1e-12)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, { coefficient, rest }]) => buildTerm(coefficient, rest));
+
+  if (result.length === 0) return num(0);
+  return result.length === 1 ? result[0] : { kind: 'add', terms: result };
+}
+
+function simplifyMul(factors: Expr[]): Expr {
+  const flat = factors.flatMap(f => (f.kind === 'mul' ? f.factors : [f]));
+
+  // Distribute over sums so that 2(a + b) and 2a + 2b meet in the same form
+  const sumIndex = flat.findIndex(f => f.kind === 'add');
+  if (sumIndex !== -1) {
+    const sum = flat[sumIndex] as Extract<Expr, { kind: 'add' }>;
+    const others = flat.filter((_, i) => i !== sumIndex);
+    if (sum.terms.length * Math.max(1, others.length) <= MAX_EXPANDED_TERMS) {
+      return simplify({
+        kind: 'add',
+        terms: sum.terms.map(term => ({ kind: 'mul', factors: [term, ...others] }))
+      });
+    }
+  }
+
+  let coefficient = 1;
+  const powers = new Map<string, { base: Expr; exponents: Expr[] }>();
+  for (const factor of flat) {
+    if (factor.kind === 'num') {
+      coefficient *= factor.value;
+      continue;
+    }
+    const base = factor.kind === 'pow' ? factor.base : factor;
+    const exponent = factor.kind === 'pow' ? factor.exponent : num(1);
+    const key = printExpr(base);
+    const existing = powers.get(key);
+    if (existing) existing.exponents.push(exponent);
+    else powers.set(key, { base, exponents: [exponent] });
+  }
+
+  if (coefficient === 0) return num(0);
+
+  const rest = [...powers.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, { base, exponents }]) => simplifyPow(base, simplifyAdd(exponents)))
+    .filter(f => !(f.kind === 'num' && f.value === 1));
+
+  const restCoefficient = rest.filter(f => f.kind === 'num').reduce((p, f) => p * (f as { value: number }).value, 1);
+  const symbolic = rest.filter(f => f.kind !== 'num');
+  const total = coefficient * restCoefficient;
+
+  if (symbolic.length === 0) return num(total);
+  if (total === 1 && symbolic.length === 1) return symbolic[0];
+  return { kind: 'mul', factors: total === 1 ? symbolic : [num(total), ...symbolic] };
+}
+
+function simplifyPow(base: Expr, exponent: Expr): Expr {
+  if (exponent.kind === 'num') {
+    if (exponent.value === 0) return num(1);
+    if (exponent.value === 1) return base;
+    if (base.kind === 'num') {
+      const value = Math.pow(base.value, exponent.value);
+      if (Number.isInteger(value) || Number.isInteger(exponent.value)) return num(value);
+    }
+    if (base.kind === 'pow' && base.exponent.kind === 'num' && Number.isInteger(exponent.value)) {
+      return simplifyPow(base.base, num(base.exponent.value * exponent.value));
+    }
+  }
+  if (base.kind === 'num' && base.value === 1) return num(1);
+  return { kind: 'pow', base, exponent };
+}
+
+export function simplify(expr: Expr): Expr {
+  switch (expr.kind) {
+    case 'num':
+    case 'sym':
+      return expr;
+    case 'add':
+      return simplifyAdd(expr.terms.map(simplify));
+    case 'mul':
+      return simplifyMul(expr.factors.map(simplify));
+    case 'pow':
+      return simplifyPow(simplify(expr.base), simplify(expr.exponent));
+    case 'call':
+      return { kind: 'call', fn: expr.fn, arg: simplify(expr.arg) };
+  }
+}
+
+// ============================================================================
+// NUMERIC EVALUATION
+// ============================================================================
+
+const FUNCTION_IMPLS: Record<string, (x: number) => number> = {
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  sec: x => 1 / Math.cos(x),
+  csc: x => 1 / Math.sin(x),
+  cot: x => 1 / Math.tan(x),
+  arcsin: Math.asin,
+  arccos: Math.acos,
+  arctan: Math.atan,
+  sinh: Math.sinh,
+  cosh: Math.cosh,
+  tanh: Math.tanh,
+  ln: Math.log,
+  abs: Math.abs
+};
+
+export function evaluate(expr: Expr, scope: Record<string, number>): number {
+  switch (expr.kind) {
+    case 'num':
+      return expr.value;
+    case 'sym':
+      if (expr.name in scope) return scope[expr.name];
+      if (expr.name === 'e') return Math.E;
+      if (expr.name === 'pi') return Math.PI;
+      return NaN;
+    case 'add':
+      return expr.terms.reduce((sum, t) => sum + evaluate(t, scope), 0);
+    case 'mul':
+      return expr.factors.reduce((product, f) => product * evaluate(f, scope), 1);
+    case 'pow':
+      return Math.pow(evaluate(expr.base, scope), evaluate(expr.exponent, scope));
+    case 'call':
+      return FUNCTION_IMPLS[expr.fn](evaluate(expr.arg, scope));
+  }
+}
+
+function collectSymbols(expr: Expr, into = new Set<string>()): Set<string> {
+  switch (expr.kind) {
+    case 'sym':
+      if (expr.name !== 'e' && expr.name !== 'pi') into.add(expr.name);
+      break;
+    case 'add':
+      expr.terms.forEach(t => collectSymbols(t, into));
+      break;
+    case 'mul':
+      expr.factors.forEach(f => collectSymbols(f, into));
+      break;
+    case 'pow':
+      collectSymbols(expr.base, into);
+      collectSymbols(expr.exponent, into);
+      break;
+    case 'call':
+      collectSymbols(expr.arg, into);
+      break;
+  }
+  return into;
+}
+
+// Small seeded PRNG so grading is reproducible run to run
+function mulberry32(seed: number): () => number {
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const SAMPLE_POINTS = 12;
+const MIN_VALID_POINTS = 6;
+const RELATIVE_TOLERANCE = 1e-6;
+
+function closeEnough(a: number, b: number, absoluteTolerance = 0): boolean {
+  return Math.abs(a - b) <= Math.max(absoluteTolerance, RELATIVE_TOLERANCE * Math.max(1, Math.abs(a), Math.abs(b)));
+}
+
+// Decimals with fewer significant digits (1.6 for π/2) must match exactly
+const MIN_ROUNDED_DIGITS = 3;
+
+// A bare decimal like 1.5708 is accepted to its last printed digit. Takes the
+// side that is compared, after normalizeSource drops anything left of "=".
+function roundingTolerance(answer: string): number {
+  const text = normalizeSource(answer);
+  const match = text.match(/^-?\d*\.(\d+)$/);
+  if (!match) return 0;
+  const significant = text.replace(/^-?[0.]*/, '').replace('.', '').length;
+  return significant >= MIN_ROUNDED_DIGITS ? 0.5 * Math.pow(10, -match[1].length) : 0;
+}
+
+// "\frac{\pi}{2} \approx 1.5708" states the answer twice: the rounded value
+// last, which is what the parser keeps, then the exact form before it
+function approximationSides(answer: string): string[] {
+  const parts = answer.split(/\\approx|≈/);
+  return parts.length > 1 ? [parts[parts.length - 1], parts[parts.length - 2]] : [answer];
+}
+
+// Differences between the two expressions at random points, with integration
+// constants pinned to zero. Returns null if too few points were defined.
+function sampleDifferences(a: Expr, b: Expr, variables: string[], constants: string[]): number[] | null {
+  const random = mulberry32(42);
+  const differences: number[] = [];
+
+  for (let i = 0; i < SAMPLE_POINTS; i++) {
+    const scope: Record<string, number> = {};
+    for (const name of constants) scope[name] = 0;
+    // Positive sample range keeps ln(x) and x^x defined
+    for (const name of variables) scope[name] = 0.5 + random() * 2;
+
+    const difference = evaluate(a, scope) - evaluate(b, scope);
+    if (Number.isFinite(difference)) differences.push(difference);
+  }
+
+  return differences.length >= MIN_VALID_POINTS ? differences : null;
+}
+
+// ============================================================================
+// GRADING
+// ============================================================================
+
+function gradeSide(side: string, extractedAnswer: string, expected: Expr, expectedSymbols: Set<string>, needsConstant: boolean): MathGradeResult {
+  let actual: Expr;
+  try {
+    actual = parseExpression(side);
+  } catch (error: any) {
+    return {
+      verdict: 'unparseable',
+      extractedAnswer,
+      method: null,
+      constantOfIntegration: needsConstant ? 'missing' : 'not-required',
+      detail: error.message
+    };
+  }
+
+  const actualSymbols = collectSymbols(actual);
+  const hasConstant = [...actualSymbols].some(s => INTEGRATION_CONSTANTS.has(s));
+  const constantOfIntegration = !needsConstant ? 'not-required' : hasConstant ? 'present' : 'missing';
+
+  const allSymbols = new Set([...expectedSymbols, ...actualSymbols]);
+  const constants = [...allSymbols].filter(s => needsConstant && INTEGRATION_CONSTANTS.has(s));
+  const variables = [...allSymbols].filter(s => !constants.includes(s));
+
+  // Symbolic: the simplified difference is zero, or a bare constant when an
+  // antiderivative is expected
+  const difference = simplify({ kind: 'add', terms: [actual, neg(expected)] });
+  const differenceSymbols = collectSymbols(difference);
+  if (
+    (difference.kind === 'num' && difference.value === 0) ||
+    (needsConstant && [...differenceSymbols].every(s => constants.includes(s)))
+  ) {
+    return { verdict: 'equivalent', extractedAnswer, method: 'symbolic', constantOfIntegration };
+  }
+
+  const differences = sampleDifferences(actual, expected, variables, constants);
+  if (differences === null) {
+    return {
+      verdict: 'unparseable',
+      extractedAnswer,
+      method: 'numeric',
+      constantOfIntegration,
+      detail: 'Expression undefined at sample points'
+    };
+  }
+
+  const reference = needsConstant ? differences[0] : 0;
+  const tolerance = roundingTolerance(side);
+  const equivalent = differences.every(d => closeEnough(d, reference, tolerance));
+
+  return {
+    verdict: equivalent ? 'equivalent' : 'not-equivalent',
+    extractedAnswer,
+    method: 'numeric',
+    constantOfIntegration
+  };
+}
+
+export function gradeMathAnswer(response: string, expectedAnswer: string): MathGradeResult {
+  const expected = parseExpression(expectedAnswer);
+  const expectedSymbols = collectSymbols(expected);
+  const needsConstant = [...expectedSymbols].some(s => INTEGRATION_CONSTANTS.has(s));
+
+  const extractedAnswer = extractFinalAnswer(response);
+  if (extractedAnswer === null) {
+    return {
+      verdict: 'unparseable',
+      extractedAnswer,
+      method: null,
+      constantOfIntegration: needsConstant ? 'missing' : 'not-required',
+      detail: 'No final answer found'
+    };
+  }
+
+  // Either side of an approximation counts; otherwise report the rounded side,
+  // or the exact one when only that parses
+  const grades = approximationSides(extractedAnswer).map(side => gradeSide(side, extractedAnswer, expected, expectedSymbols, needsConstant));
+  return grades.find(g => g.verdict === 'equivalent') ?? grades.find(g => g.verdict !== 'unparseable') ?? grades[0];
+}
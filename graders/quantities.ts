@@ -0,0 +1,291 @@
+/**
+ * Unit-Aware Quantity Grader
+ *
+ * Pulls physical quantities (value + unit) out of a model response, converts
+ * them to SI and compares each against a structured expected answer. Used for
+ * the physics problems and any other answer that is a number with a unit.
+ * When the response states a final answer, only that section is searched, so
+ * an intermediate value with the right number cannot stand in for it.
+ */
+
+import { extractAnswer } from './extraction';
+
+export interface ExpectedQuantity {
+  name: string;
+  labels: string[]; // Words or symbols that introduce the quantity, e.g. ['height', 'H']
+  value: number;
+  unit: string;
+}
+
+export interface QuantitySpec {
+  quantities: ExpectedQuantity[];
+  relativeTolerance: number;
+}
+
+export type QuantityStatus = 'matched' | 'wrong-value' | 'wrong-unit' | 'missing';
+
+export interface QuantityGrade {
+  name: string;
+  status: QuantityStatus;
+  expected: string;
+  found: string | null;
+  foundSI?: number; // Found value in SI units, when its unit has the expected dimension
+  relativeError?: number;
+}
+
+export interface QuantityGradeResult {
+  quantities: QuantityGrade[];
+  allMatched: boolean;
+  score: number;
+}
+
+// ============================================================================
+// UNITS
+// ============================================================================
+
+// Exponents over the SI base units m, kg, s, A, mol, K (in that order)
+type Dimension = number[];
+
+interface UnitDefinition {
+  factor: number;
+  dimension: Dimension;
+}
+
+const dim = (m = 0, kg = 0, s = 0, A = 0, mol = 0, K = 0): Dimension => [m, kg, s, A, mol, K];
+
+const UNITS: Record<string, UnitDefinition> = {
+  m: { factor: 1, dimension: dim(1) },
+  g: { factor: 1e-3, dimension: dim(0, 1) },
+  s: { factor: 1, dimension: dim(0, 0, 1) },
+  min: { factor: 60, dimension: dim(0, 0, 1) },
+  h: { factor: 3600, dimension: dim(0, 0, 1) },
+  A: { factor: 1, dimension: dim(0, 0, 0, 1) },
+  mol: { factor: 1, dimension: dim(0, 0, 0, 0, 1) },
+  K: { factor: 1, dimension: dim(0, 0, 0, 0, 0, 1) },
+  L: { factor: 1e-3, dimension: dim(3) },
+  N: { factor: 1, dimension: dim(1, 1, -2) },
+  J: { factor: 1, dimension: dim(2, 1, -2) },
+  W: { factor: 1, dimension: dim(2, 1, -3) },
+  Pa: { factor: 1, dimension: dim(-1, 1, -2) },
+  Hz: { factor: 1, dimension: dim(0, 0, -1) },
+  C: { factor: 1, dimension: dim(0, 0, 1, 1) },
+  V: { factor: 1, dimension: dim(2, 1, -3, -1) },
+  F: { factor: 1, dimension: dim(-2, -1, 4, 2) },
+  Ω: { factor: 1, dimension: dim(2, 1, -3, -2) },
+  M: { factor: 1e3, dimension: dim(-3, 0, 0, 0, 1) }, // molar, mol/L
+  rad: { factor: 1, dimension: dim() }
+};
+
+const PREFIXES: Record<string, number> = {
+  G: 1e9, M: 1e6, k: 1e3, c: 1e-2, m: 1e-3, μ: 1e-6, µ: 1e-6, u: 1e-6, n: 1e-9, p: 1e-12
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  meter: 'm', meters: 'm', metre: 'm', metres: 'm',
+  second: 's', seconds: 's', sec: 's',
+  gram: 'g', grams: 'g', kilogram: 'kg', kilograms: 'kg',
+  joule: 'J', joules: 'J', millijoule: 'mJ', millijoules: 'mJ',
+  farad: 'F', farads: 'F', microfarad: 'μF', microfarads: 'μF',
+  moles: 'mol', mole: 'mol', liter: 'L', liters: 'L', litre: 'L', litres: 'L'
+};
+
+const SUPERSCRIPT_DIGITS: Record<string, string> = { '¹': '1', '²': '2', '³': '3', '⁻': '-' };
+
+function parseUnitAtom(atom: string): UnitDefinition | null {
+  const match = atom.match(/^([A-Za-zμµΩ]+)(?:\^\{?(-?\d+)\}?)?$/);
+  if (!match) return null;
+
+  const symbol = UNIT_ALIASES[match[1]] ?? match[1];
+  const exponent = match[2] ? parseInt(match[2], 10) : 1;
+
+  let unit: UnitDefinition | undefined = UNITS[symbol];
+  if (!unit && symbol.length > 1 && symbol[0] in PREFIXES && UNITS[symbol.slice(1)]) {
+    const base = UNITS[symbol.slice(1)];
+    unit = { factor: base.factor * PREFIXES[symbol[0]], dimension: base.dimension };
+  }
+  if (!unit) return null;
+
+  return {
+    factor: Math.pow(unit.factor, exponent),
+    dimension: unit.dimension.map(d => d * exponent)
+  };
+}
+
+// Parse a unit such as "m/s²", "g/mol" or "kg·m^2/s^2" into an SI factor and dimension
+export function parseUnit(unit: string): UnitDefinition | null {
+  const normalized = unit
+    .replace(/[¹²³⁻]+/g, run => `^${[...run].map(c => SUPERSCRIPT_DIGITS[c]).join('')}`)
+    .replace(/\s+/g, '');
+
+  const [numerator, ...denominators] = normalized.split('/');
+  let factor = 1;
+  let dimension = dim();
+
+  const apply = (part: string, sign: number): boolean => {
+    for (const atom of part.split(/[·⋅*]/).filter(Boolean)) {
+      const parsed = parseUnitAtom(atom);
+      if (!parsed) return false;
+      factor *= Math.pow(parsed.factor, sign);
+      dimension = dimension.map((d, i) => d + sign * parsed.dimension[i]);
+    }
+    return true;
+  };
+
+  if (!apply(numerator, 1)) return null;
+  for (const denominator of denominators) {
+    if (!apply(denominator, -1)) return null;
+  }
+  return { factor, dimension };
+}
+
+const sameDimension = (a: Dimension, b: Dimension) => a.every((d, i) => d === b[i]);
+
+// ============================================================================
+// EXTRACTION
+// ============================================================================
+
+interface QuantityMention {
+  text: string;
+  value: number;
+  unit: UnitDefinition | null;
+  context: string; // Text since the previous mention with a unit (or line start)
+}
+
+function normalizeResponse(response: string): string {
+  return response
+    .replace(/\\(?:text|mathrm)\{([^{}]*)\}/g, '$1')
+    .replace(/\\boxed\{((?:[^{}]|\{[^{}]*\})*)\}/g, '$1')
+    .replace(/<sup>([^<]*)<\/sup>/g, '^$1')
+    .replace(/<sub>([^<]*)<\/sub>/g, '_$1')
+    .replace(/\\times/g, '×')
+    .replace(/\\[,;! ]/g, ' ')
+    .replace(/\\mu\s*/g, 'μ')
+    .replace(/\\Omega/g, 'Ω')
+    .replace(/[$*]/g, '')
+    .replace(/\s*\/\s*/g, '/');
+}
+
+const QUANTITY_PATTERN = new RegExp(
+  '(?<![\\w.^_]|[_^]\\{)(-?\\d+(?:\\.\\d+)?)' + // value, not an exponent or subscript
+  '(?:\\s*[×x*]\\s*10\\^\\{?([-−]?\\d+)\\}?|[eE]([-+]?\\d+))?' + // optional "× 10^{-6}" or "e-6"
+  '(?:\\s*([A-Za-zμµΩ][A-Za-zμµΩ0-9¹²³⁻^{}/·⋅\\-]*))?', // optional unit
+  'g'
+);
+
+function extractMentions(text: string): QuantityMention[] {
+  const mentions: QuantityMention[] = [];
+  let contextStart = 0;
+
+  for (const match of text.matchAll(QUANTITY_PATTERN)) {
+    const index = match.index ?? 0;
+    const lineStart = text.lastIndexOf('\n', index) + 1;
+    // Only look back to the nearest list separator, so "x = 2, y = 3 m" doesn't label 3 m as x
+    const context = text.slice(Math.max(contextStart, lineStart), index).split(/[,;]/).pop() ?? '';
+
+    const exponent = match[2] ?? match[3];
+    let value = parseFloat(match[1]);
+    if (exponent) value *= Math.pow(10, parseInt(exponent.replace('−', '-'), 10));
+
+    // Drop trailing separators ("m/s-", "m^") before parsing the unit
+    let unitText = (match[4] ?? '').replace(/[^A-Za-zμµΩ0-9¹²³}]+$/, '');
+    const unit = unitText ? parseUnit(unitText) : null;
+    if (!unit) unitText = '';
+
+    // Bare numbers ("\frac{2\pi}{5} \approx 1.26 s") don't cut the label off from the quantity
+    if (unit) contextStart = index + match[0].length;
+
+    mentions.push({
+      text: `${match[1]}${exponent ? ` × 10^${exponent}` : ''}${unitText ? ` ${unitText}` : ''}`,
+      value,
+      unit,
+      context
+    });
+  }
+
+  return mentions;
+}
+
+function hasLabel(context: string, labels: string[]): boolean {
+  return labels.some(label => {
+    if (label.length === 1) {
+      // Single-letter symbols ("H", "R") must stand alone and keep their case
+      return new RegExp(`(?<![A-Za-z])${label}(?![A-Za-z])`).test(context);
+    }
+    return context.toLowerCase().includes(label.toLowerCase());
+  });
+}
+
+// ============================================================================
+// GRADING
+// ============================================================================
+
+const matchesUnit = (m: QuantityMention, target: UnitDefinition) => m.unit !== null && sameDimension(m.unit.dimension, target.dimension);
+
+// The last labelled value in the right dimension
+function findLabelled(mentions: QuantityMention[], expected: ExpectedQuantity, target: UnitDefinition): QuantityMention | null {
+  const labelled = mentions.filter(m => hasLabel(m.context, expected.labels) && matchesUnit(m, target));
+  return labelled[labelled.length - 1] ?? null;
+}
+
+// Without a labelled value: the first unused value in the right dimension, so
+// "reaches 10 m high and lands 40 m away" gives each quantity its own value,
+// and only then a labelled value with the wrong (or no) unit
+function findUnlabelled(mentions: QuantityMention[], expected: ExpectedQuantity, target: UnitDefinition, used: Set<QuantityMention>): QuantityMention | null {
+  const labelled = mentions.filter(m => hasLabel(m.context, expected.labels));
+  return mentions.find(m => matchesUnit(m, target) && !used.has(m)) ?? labelled[labelled.length - 1] ?? null;
+}
+
+export function gradeQuantities(response: string, spec: QuantitySpec): QuantityGradeResult {
+  const extraction = extractAnswer(response);
+  const mentions = extractMentions(normalizeResponse(extraction.stated ? extraction.region! : response));
+
+  const targets = spec.quantities.map(expected => {
+    const target = parseUnit(expected.unit);
+    if (!target) throw new Error(`Unknown unit "${expected.unit}" in expected quantity ${expected.name}`);
+    return target;
+  });
+
+  // Labelled values claim their mentions first, so an unlabelled quantity
+  // earlier in the spec can't take the value labelled for a later one
+  const found = spec.quantities.map((expected, i) => findLabelled(mentions, expected, targets[i]));
+  const used = new Set(found.filter((m): m is QuantityMention => m !== null));
+  spec.quantities.forEach((expected, i) => {
+    if (found[i]) return;
+    found[i] = findUnlabelled(mentions, expected, targets[i], used);
+    if (found[i]) used.add(found[i]!);
+  });
+
+  const quantities = spec.quantities.map((expected, i): QuantityGrade => {
+    const target = targets[i];
+    const expectedLabel = `${expected.value} ${expected.unit}`;
+    const mention = found[i];
+
+    if (!mention) {
+      return { name: expected.name, status: 'missing', expected: expectedLabel, found: null };
+    }
+    if (!mention.unit || !sameDimension(mention.unit.dimension, target.dimension)) {
+      return { name: expected.name, status: 'wrong-unit', expected: expectedLabel, found: mention.text };
+    }
+
+    const expectedSI = expected.value * target.factor;
+    const foundSI = mention.value * mention.unit.factor;
+    const relativeError = Math.abs(foundSI - expectedSI) / Math.abs(expectedSI);
+
+    return {
+      name: expected.name,
+      status: relativeError <= spec.relativeTolerance ? 'matched' : 'wrong-value',
+      expected: expectedLabel,
+      found: mention.text,
+      foundSI,
+      relativeError
+    };
+  });
+
+  const matchedCount = quantities.filter(q => q.status === 'matched').length;
+
+  return {
+    quantities,
+    allMatched: matchedCount === quantities.length,
+    score: matchedCount / quantities.length
+  };
+}
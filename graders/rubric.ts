@@ -0,0 +1,83 @@
+/**
+ * Rubric Grader
+ *
+ * Scores explanation-type answers against weighted rubric items. Each item
+ * lists synonym patterns that earn its credit and may list negative patterns
+ * for common misconceptions; a misconception voids the item's credit even if
+ * a synonym also matched.
+ */
+
+export interface Misconception {
+  pattern: string; // Regex source, matched case-insensitively
+  description: string;
+}
+
+export interface RubricItem {
+  id: string;
+  description: string;
+  weight: number;
+  patterns: string[]; // Regex sources, matched case-insensitively
+  match?: 'any' | 'all'; // Whether one or every pattern must match (default 'any')
+  misconceptions?: Misconception[];
+}
+
+export interface RubricSpec {
+  items: RubricItem[];
+  passThreshold: number; // Fraction of total weight needed to count as correct
+}
+
+export interface RubricItemScore {
+  id: string;
+  description: string;
+  weight: number;
+  earned: number;
+  matched: string[];
+  misconceptions: string[];
+}
+
+export interface RubricGradeResult {
+  items: RubricItemScore[];
+  score: number;
+  passed: boolean;
+}
+
+// Strip Markdown emphasis and collapse table padding so phrases read contiguously
+function normalizeText(response: string): string {
+  return response
+    .replace(/\*\*|__/g, '')
+    .replace(/(?<=\s)\*(?=\S)|(?<=\S)\*(?=\s)/g, '')
+    .replace(/[ \t]+/g, ' ');
+}
+
+function findMatch(text: string, pattern: string): string | null {
+  const match = text.match(new RegExp(pattern, 'i'));
+  return match ? match[0].trim() : null;
+}
+
+export function gradeRubric(response: string, spec: RubricSpec): RubricGradeResult {
+  const text = normalizeText(response);
+
+  const items = spec.items.map((item): RubricItemScore => {
+    const hits = item.patterns.map(pattern => findMatch(text, pattern));
+    const matched = hits.filter((hit): hit is string => hit !== null);
+    const satisfied = item.match === 'all' ? matched.length === item.patterns.length : matched.length > 0;
+
+    const misconceptions = (item.misconceptions ?? [])
+      .filter(m => findMatch(text, m.pattern) !== null)
+      .map(m => m.description);
+
+    return {
+      id: item.id,
+      description: item.description,
+      weight: item.weight,
+      earned: satisfied && misconceptions.length === 0 ? item.weight : 0,
+      matched,
+      misconceptions
+    };
+  });
+
+  const totalWeight = spec.items.reduce((sum, item) => sum + item.weight, 0);
+  const score = items.reduce((sum, item) => sum + item.earned, 0) / totalWeight;
+
+  return { items, score, passed: score >= spec.passThreshold };
+}
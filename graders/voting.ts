@@ -0,0 +1,117 @@
+/**
+ * Self-Consistency Voting
+ *
+ * Clusters several sampled responses to one prompt by their final answers and
+ * picks the majority. Equivalence comes from the problem's own grader: math
+ * answers match when one grades as equivalent to the other, quantities when
+ * every value agrees in SI within the problem's tolerance, equations when
+ * they are the same reaction with proportional coefficients. Explanations
+ * have no single answer, so biology samples vote with their rubric verdict.
+ * Samples without an extractable answer form their own cluster, which wins
+ * only when no sample has an answer. Ties go to the cluster whose first
+ * member was sampled first.
+ */
+
+import { Problem } from '../dataset';
+import { gradeEquation } from './chemistry';
+import { extractFinalAnswer, gradeMathAnswer } from './math';
+import { gradeQuantities, QuantityGrade } from './quantities';
+import { gradeRubric } from './rubric';
+
+export interface AnswerCluster {
+  answer: string | null; // The first member's answer; null for samples without one
+  samples: number[]; // Indexes into the voted responses, in sample order
+}
+
+export interface VoteResult {
+  clusters: AnswerCluster[]; // Largest first
+  majority: number; // Index of the response standing for the winning cluster (its first member)
+  majorityAnswer: string | null;
+  agreement: number; // Winning cluster size / samples
+}
+
+interface Ballot {
+  response: string;
+  answer: string | null;
+  quantities?: QuantityGrade[];
+}
+
+// ============================================================================
+// EQUIVALENCE
+// ============================================================================
+
+function ballotFor(problem: Problem, response: string): Ballot {
+  const { grading } = problem;
+  switch (grading.method) {
+    case 'math':
+      return { response, answer: extractFinalAnswer(response) };
+    case 'quantities': {
+      const { quantities } = gradeQuantities(response, grading);
+      const found = quantities.filter(q => q.found !== null);
+      return { response, answer: found.length > 0 ? found.map(q => `${q.name} = ${q.found}`).join('; ') : null, quantities };
+    }
+    case 'equation':
+      return { response, answer: gradeEquation(response, grading.equation).extractedEquation };
+    case 'rubric':
+      return { response, answer: gradeRubric(response, grading).passed ? 'passes rubric' : 'fails rubric' };
+  }
+}
+
+function sameAnswer(problem: Problem, a: Ballot, b: Ballot): boolean {
+  if (a.answer === null || b.answer === null) return a.answer === b.answer;
+  if (a.answer === b.answer) return true;
+
+  const { grading } = problem;
+  switch (grading.method) {
+    case 'math':
+      // The other sample's answer stands in for the reference; unparseable answers only match verbatim
+      try {
+        return gradeMathAnswer(b.response, a.answer).verdict === 'equivalent';
+      } catch {
+        return false;
+      }
+    case 'quantities':
+      return a.quantities!.every((q, i) => {
+        const other = b.quantities![i];
+        if (q.foundSI === undefined || other.foundSI === undefined) return q.found === other.found;
+        const scale = Math.max(Math.abs(q.foundSI), Math.abs(other.foundSI));
+        return scale === 0 || Math.abs(q.foundSI - other.foundSI) / scale <= grading.relativeTolerance;
+      });
+    case 'equation':
+      // Grading one against the other accepts scaled coefficients but needs a balanced equation
+      try {
+        return ['correct', 'not-reduced'].includes(gradeEquation(b.response, a.answer).verdict);
+      } catch {
+        return false;
+      }
+    case 'rubric':
+      return false;
+  }
+}
+
+// ============================================================================
+// VOTING
+// ============================================================================
+
+export function voteResponses(problem: Problem, responses: string[]): VoteResult {
+  if (responses.length === 0) throw new Error(`No responses to vote on for ${problem.id}`);
+
+  const ballots = responses.map(response => ballotFor(problem, response));
+  const clusters: AnswerCluster[] = [];
+  ballots.forEach((ballot, i) => {
+    const cluster = clusters.find(c => sameAnswer(problem, ballots[c.samples[0]], ballot));
+    if (cluster) cluster.samples.push(i);
+    else clusters.push({ answer: ballot.answer, samples: [i] });
+  });
+
+  // Stable sort keeps first-sampled order among equal sizes
+  clusters.sort((a, b) => b.samples.length - a.samples.length);
+  const winner = clusters.find(c => c.answer !== null) ?? clusters[0];
+
+  return {
+    clusters,
+    majority: winner.samples[0],
+    majorityAnswer: winner.answer,
+    agreement: winner.samples.length / responses.length
+  };
+}
@@ -0,0 +1,283 @@
+/**
+ * Prompt Templates
+ *
+ * Named, versioned prompt templates loaded from templates.json. A template
+ * gives each domain its instructions, the intro and format of the example
+ * block, and the transition and wrapper around the problem; a prompt is those
+ * blocks joined by blank lines. Templates can extend another and override
+ * single fields, so a variant states only what it changes. Each template's
+ * resolved content is hashed and must match the hash pinned next to it, so an
+ * edit to the wording forces a version bump. The same template also renders
+ * chat-format prompts: instructions as the system prompt, each example as a
+ * user turn (the problem wrapper) answered by an assistant turn (the solution).
+ * A prompt style varies the reasoning asked for: an explicit step-by-step cue,
+ * or answer-only instructions and examples cut down to their final answers.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Domain, DOMAINS, FewShotExample, hashContent, Problem } from '../dataset';
+import { extractAnswer } from '../graders/extraction';
+import { ChatMessage } from '../providers';
+
+export const PROMPTS_DIR = __dirname;
+export const TEMPLATES_PATH = path.join(PROMPTS_DIR, 'templates.json');
+
+export interface DomainTemplate {
+  instructions: string | null; // null leaves the prompt without a format header
+  examplesIntro: string;
+  example: string; // {{index}}, {{problem}}, {{solution}}
+  exampleSeparator: string; // Block after each example; '' for none
+  transition: string; // Between the examples and the problem
+  problem: string; // {{problem}}
+  answerOnlyInstructions: string; // Replaces the instructions in the 'answer-only' style
+  stepByStepCue: string; // Follows the problem in the 'step-by-step' style
+}
+
+// 'default' renders the template as written, with worked examples;
+// 'step-by-step' adds the cue after the problem;
+// 'answer-only' asks for the answer alone and shows answer-only examples;
+// 'answer-examples' keeps the instructions but shows answer-only examples
+export type PromptStyle = 'default' | 'step-by-step' | 'answer-only' | 'answer-examples';
+export const PROMPT_STYLES: PromptStyle[] = ['default', 'step-by-step', 'answer-only', 'answer-examples'];
+
+export interface PromptTemplate {
+  name: string;
+  version: string;
+  description?: string;
+  contentHash: string; // Hash of the resolved domain templates, pinned in templates.json
+  domains: Record<Domain, DomainTemplate>;
+}
+
+export class PromptTemplateError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid prompt templates:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+  }
+}
+
+// Placeholders each field may use; anything else in {{...}} is a typo
+const PLACEHOLDERS: Record<keyof DomainTemplate, string[]> = {
+  instructions: [],
+  examplesIntro: [],
+  example: ['index', 'problem', 'solution'],
+  exampleSeparator: [],
+  transition: [],
+  problem: ['problem'],
+  answerOnlyInstructions: [],
+  stepByStepCue: []
+};
+const FIELDS = Object.keys(PLACEHOLDERS) as Array<keyof DomainTemplate>;
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function validateDomainFields(fields: unknown, where: string, partial: boolean, issues: string[]) {
+  if (!isObject(fields)) {
+    issues.push(`${where}: expected an object`);
+    return;
+  }
+  for (const key of Object.keys(fields)) {
+    if (!FIELDS.includes(key as keyof DomainTemplate)) issues.push(`${where}.${key}: unknown field; expected ${FIELDS.join(', ')}`);
+  }
+  for (const field of FIELDS) {
+    const value = fields[field];
+    if (value === undefined) {
+      if (!partial) issues.push(`${where}.${field}: missing`);
+      continue;
+    }
+    if (field === 'instructions' && value === null) continue;
+    if (typeof value !== 'string') {
+      issues.push(`${where}.${field}: expected a string${field === 'instructions' ? ' or null' : ''}`);
+      continue;
+    }
+    for (const [, name] of value.matchAll(/\{\{(\w+)\}\}/g)) {
+      if (!PLACEHOLDERS[field].includes(name)) issues.push(`${where}.${field}: unknown placeholder {{${name}}}`);
+    }
+  }
+}
+
+function validateTemplates(templates: unknown, issues: string[]) {
+  if (!Array.isArray(templates)) {
+    issues.push('templates.json: expected an array of templates');
+    return;
+  }
+
+  const names = templates.map(t => t?.name);
+  templates.forEach((template: unknown, i: number) => {
+    const where = `templates[${i}]`;
+    if (!isObject(template)) {
+      issues.push(`${where}: expected an object`);
+      return;
+    }
+
+    if (typeof template.name !== 'string' || !/^[\w.-]+$/.test(template.name)) issues.push(`${where}.name: expected an identifier`);
+    else if (names.indexOf(template.name) !== i) issues.push(`${where}.name: duplicate template "${template.name}"`);
+    if (typeof template.version !== 'string' || !/^\d+\.\d+\.\d+$/.test(template.version)) {
+      issues.push(`${where}.version: expected a semantic version like "1.2.0"`);
+    }
+    if (template.description !== undefined && typeof template.description !== 'string') issues.push(`${where}.description: expected a string`);
+    if (typeof template.contentHash !== 'string') issues.push(`${where}.contentHash: expected a string`);
+    if (template.extends !== undefined && !names.includes(template.extends)) {
+      issues.push(`${where}.extends: unknown template "${template.extends}"`);
+    }
+
+    if (!isObject(template.domains)) {
+      issues.push(`${where}.domains: expected an object keyed by domain`);
+      return;
+    }
+    for (const key of Object.keys(template.domains)) {
+      if (!DOMAINS.includes(key as Domain)) issues.push(`${where}.domains.${key}: unknown domain`);
+    }
+    // A base template must cover every domain in full; an extending one only overrides
+    for (const domain of DOMAINS) {
+      const fields = template.domains[domain];
+      if (fields === undefined && template.extends !== undefined) continue;
+      validateDomainFields(fields, `${where}.domains.${domain}`, template.extends !== undefined, issues);
+    }
+  });
+}
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+function resolveTemplates(templates: any[]): PromptTemplate[] {
+  const issues: string[] = [];
+  const resolved = new Map<string, Record<Domain, DomainTemplate>>();
+
+  const resolve = (name: string, chain: string[]): Record<Domain, DomainTemplate> | null => {
+    if (resolved.has(name)) return resolved.get(name)!;
+    if (chain.includes(name)) {
+      issues.push(`${name}: circular extends (${[...chain, name].join(' -> ')})`);
+      return null;
+    }
+    const template = templates.find(t => t.name === name);
+    const base = template.extends === undefined ? null : resolve(template.extends, [...chain, name]);
+    if (template.extends !== undefined && !base) return null;
+
+    const domains = Object.fromEntries(
+      DOMAINS.map(domain => [domain, { ...base?.[domain], ...template.domains[domain] }])
+    ) as Record<Domain, DomainTemplate>;
+    resolved.set(name, domains);
+    return domains;
+  };
+
+  const result: PromptTemplate[] = [];
+  for (const template of templates) {
+    const domains = resolve(template.name, []);
+    if (!domains) continue;
+
+    const actualHash = hashContent(domains);
+    if (actualHash !== template.contentHash) {
+      issues.push(
+        `${template.name}: content hash mismatch: templates.json pins ${template.contentHash} but the template hashes to ${actualHash}. ` +
+        'If the edit is intentional, bump its version and update contentHash.'
+      );
+      continue;
+    }
+    const { name, version, description, contentHash } = template;
+    result.push({ name, version, ...(description && { description }), contentHash, domains });
+  }
+
+  if (issues.length > 0) throw new PromptTemplateError(issues);
+  return result;
+}
+
+export function loadPromptTemplates(file = TEMPLATES_PATH): PromptTemplate[] {
+  let templates: unknown;
+  try {
+    templates = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error: any) {
+    throw new PromptTemplateError([`${file}: ${error.message}`]);
+  }
+
+  const issues: string[] = [];
+  validateTemplates(templates, issues);
+  if (issues.length > 0) throw new PromptTemplateError(issues);
+  return resolveTemplates(templates as any[]);
+}
+
+let templates: PromptTemplate[] | null = null;
+
+export function listPromptTemplates(): PromptTemplate[] {
+  templates ??= loadPromptTemplates();
+  return templates;
+}
+
+export function getPromptTemplate(name: string): PromptTemplate {
+  const template = listPromptTemplates().find(t => t.name === name);
+  if (!template) {
+    throw new PromptTemplateError([`unknown template "${name}"; available: ${listPromptTemplates().map(t => t.name).join(', ')}`]);
+  }
+  return template;
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+// An example cut down to its final-answer section, as the extractor finds it,
+// e.g. "**Answer:** $v = 8$ m/s"; the problem is kept as is
+export function answerOnlyExample(example: FewShotExample): FewShotExample {
+  const { region } = extractAnswer(example.solution);
+  if (!region) return example;
+  return { ...example, solution: region.trim().replace(/^(?:[-*+]|\d+\.)\s+/, '') };
+}
+
+// The instructions, examples and cue a style puts around the template's wrappers
+function applyStyle(t: DomainTemplate, examples: FewShotExample[], style: PromptStyle) {
+  const answerOnly = style === 'answer-only' || style === 'answer-examples';
+  return {
+    instructions: style === 'answer-only' ? t.answerOnlyInstructions : t.instructions,
+    examples: answerOnly ? examples.map(answerOnlyExample) : examples,
+    cue: style === 'step-by-step' ? t.stepByStepCue : null
+  };
+}
+
+// One pass, so placeholder-like text inside a problem or solution is left alone
+function fill(text: string, values: Record<string, string | number>): string {
+  return text.replace(/\{\{(\w+)\}\}/g, (_, name: string) => String(values[name]));
+}
+
+export function renderPrompt(template: PromptTemplate, problem: Problem, selected: FewShotExample[], style: PromptStyle = 'default'): string {
+  const t = template.domains[problem.domain];
+  const { instructions, examples, cue } = applyStyle(t, selected, style);
+  const blocks: Array<string | null> = [instructions];
+
+  if (examples.length > 0) {
+    blocks.push(t.examplesIntro);
+    examples.forEach((ex, i) => {
+      blocks.push(fill(t.example, { index: i + 1, problem: ex.problem, solution: ex.solution }), t.exampleSeparator);
+    });
+    blocks.push(t.transition);
+  }
+
+  blocks.push(fill(t.problem, { problem: problem.prompt }), cue);
+  // Null or empty blocks (no instructions, no separator) drop out entirely
+  return blocks.filter((block): block is string => !!block).join('\n\n');
+}
+
+export interface ChatPrompt {
+  system: string | null; // The template's instructions
+  history: ChatMessage[]; // Example turns, user then assistant
+  prompt: string; // The final user turn
+}
+
+// The intro, example headings, separators and transition have no place in a
+// conversation, so only the instructions and the two wrappers carry over
+export function renderChatPrompt(template: PromptTemplate, problem: Problem, selected: FewShotExample[], style: PromptStyle = 'default'): ChatPrompt {
+  const t = template.domains[problem.domain];
+  const { instructions, examples, cue } = applyStyle(t, selected, style);
+  return {
+    system: instructions || null,
+    history: examples.flatMap((ex): ChatMessage[] => [
+      { role: 'user', content: fill(t.problem, { problem: ex.problem }) },
+      { role: 'assistant', content: ex.solution }
+    ]),
+    prompt: [fill(t.problem, { problem: problem.prompt }), cue].filter(Boolean).join('\n\n')
+  };
+}
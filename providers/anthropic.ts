@@ -0,0 +1,56 @@
+/**
+ * Anthropic Provider
+ *
+ * Anthropic Messages API, called directly rather than through the CLI so
+ * temperature, max tokens and the system prompt can be set per run.
+ */
+
+import { postJson } from './http';
+import { resolveLimits } from './limits';
+import { GenerationRequest, ModelProvider, ModelSpec } from './types';
+
+export function createAnthropicProvider(spec: ModelSpec): ModelProvider {
+  const model = spec.model ?? 'claude-sonnet-4-20250514';
+  const apiKeyEnv = spec.apiKeyEnv ?? 'ANTHROPIC_API_KEY';
+  const baseUrl = spec.baseUrl ?? 'https://api.anthropic.com/v1';
+
+  return {
+    spec,
+    multiTurn: true,
+    async generate(request: GenerationRequest) {
+      const apiKey = process.env[apiKeyEnv];
+      if (!apiKey) {
+        return { response: `ERROR: ${apiKeyEnv} not found in environment`, latencyMs: 0 };
+      }
+
+      const system = request.system ?? spec.system;
+      const temperature = request.temperature ?? spec.temperature;
+      const result = await postJson(
+        `${baseUrl}/messages`,
+        { 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' },
+        {
+          model,
+          max_tokens: request.maxTokens ?? spec.maxTokens ?? 2048,
+          ...(temperature !== undefined && { temperature }),
+          ...(system && { system }),
+          messages: [...(request.history ?? []), { role: 'user', content: request.prompt }]
+        },
+        'Anthropic',
+        { timeoutMs: resolveLimits(spec).timeoutMs }
+      );
+
+      if (!result.ok) return { response: result.error, latencyMs: result.latencyMs };
+
+      const text = (result.data.content ?? [])
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join('');
+      const usage = result.data.usage;
+      return {
+        response: text.trim() || 'No response',
+        latencyMs: result.latencyMs,
+        ...(usage && { usage: { inputTokens: usage.input_tokens, outputTokens: usage.output_tokens } })
+      };
+    }
+  };
+}
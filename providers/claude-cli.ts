@@ -0,0 +1,72 @@
+/**
+ * Claude CLI Provider
+ *
+ * Runs `claude -p` as a child process, as the original experiments did, with
+ * the prompt on stdin. The CLI takes a model and a system prompt but has no
+ * temperature or max-token flags, so those settings are ignored here; use the
+ * `anthropic` provider to control them. The CLI's own usage figures include
+ * its built-in system prompt, so token counts for this provider are estimated
+ * from the prompt and response text instead. `claude -p` takes a single
+ * prompt, so chat-format (multi-turn) prompts are not supported.
+ */
+
+import { spawn } from 'child_process';
+import { resolveLimits } from './limits';
+import { GenerationRequest, ModelProvider, ModelSpec } from './types';
+
+const MAX_OUTPUT_BYTES = 50 * 1024 * 1024;
+
+export function createClaudeCliProvider(spec: ModelSpec): ModelProvider {
+  const { timeoutMs } = resolveLimits(spec);
+
+  return {
+    spec,
+    generate(request: GenerationRequest) {
+      const system = request.system ?? spec.system;
+      const args = [
+        '-p',
+        '--output-format', 'text',
+        ...(spec.model ? ['--model', spec.model] : []),
+        ...(system ? ['--append-system-prompt', system] : [])
+      ];
+
+      const startTime = Date.now();
+      return new Promise(resolve => {
+        // 'error', 'close' and the timeout can each fire; only the first one counts
+        let settled = false;
+        const finish = (response: string) => {
+          if (settled) return;
+          settled = true;
+          clearTimeout(timer);
+          resolve({ response, latencyMs: Date.now() - startTime });
+        };
+        const fail = (message: string) => {
+          if (!settled) console.error('Claude CLI error:', message);
+          finish(`ERROR: ${message}`);
+        };
+
+        const child = spawn('claude', args, { stdio: ['pipe', 'pipe', 'pipe'] });
+        const timer = setTimeout(() => {
+          child.kill();
+          fail(`timed out after ${timeoutMs / 1000}s`);
+        }, timeoutMs);
+
+        let stdout = '';
+        let stderr = '';
+        child.stdout.on('data', chunk => {
+          stdout += chunk;
+          if (stdout.length > MAX_OUTPUT_BYTES) child.kill();
+        });
+        child.stderr.on('data', chunk => { stderr += chunk; });
+        child.on('error', error => fail(error.message));
+        child.on('close', code => {
+          if (code === 0) finish(stdout.trim());
+          else fail(`claude exited with code ${code}${stderr ? `: ${stderr.trim()}` : ''}`);
+        });
+
+        child.stdin.on('error', () => {}); // Reported through 'error'/'close' instead
+        child.stdin.end(request.prompt);
+      });
+    }
+  };
+}
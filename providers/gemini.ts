@@ -0,0 +1,55 @@
+/**
+ * Gemini Provider
+ *
+ * Google Generative Language API (generateContent). Gemini calls the
+ * assistant role "model".
+ */
+
+import { postJson } from './http';
+import { resolveLimits } from './limits';
+import { GenerationRequest, ModelProvider, ModelSpec } from './types';
+
+export function createGeminiProvider(spec: ModelSpec): ModelProvider {
+  const model = spec.model ?? 'gemini-2.0-flash';
+  const apiKeyEnv = spec.apiKeyEnv ?? 'GEMINI_API_KEY';
+
+  return {
+    spec,
+    multiTurn: true,
+    async generate(request: GenerationRequest) {
+      const apiKey = process.env[apiKeyEnv];
+      if (!apiKey) {
+        return { response: `ERROR: ${apiKeyEnv} not found in environment`, latencyMs: 0 };
+      }
+
+      const system = request.system ?? spec.system;
+      const result = await postJson(
+        `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
+        {},
+        {
+          ...(system && { systemInstruction: { parts: [{ text: system }] } }),
+          contents: [
+            ...(request.history ?? []).map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] })),
+            { role: 'user', parts: [{ text: request.prompt }] }
+          ],
+          generationConfig: {
+            temperature: request.temperature ?? spec.temperature ?? 0.7,
+            maxOutputTokens: request.maxTokens ?? spec.maxTokens ?? 2048,
+          }
+        },
+        'Gemini',
+        { timeoutMs: resolveLimits(spec).timeoutMs }
+      );
+
+      if (!result.ok) return { response: result.error, latencyMs: result.latencyMs };
+
+      const text = result.data.candidates?.[0]?.content?.parts?.[0]?.text || 'No response';
+      const usage = result.data.usageMetadata;
+      return {
+        response: text.trim(),
+        latencyMs: result.latencyMs,
+        ...(usage && { usage: { inputTokens: usage.promptTokenCount ?? 0, outputTokens: usage.candidatesTokenCount ?? 0 } })
+      };
+    }
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * HTTP Helper
+ *
+ * JSON POST with the retry policy every HTTP provider shares: backoff on 429,
+ * 503 and 529 (overloaded) responses that honors Retry-After when the server
+ * sends it, retries on network errors, and a per-attempt timeout.
+ * Returns the parsed body or an "ERROR: ..." string, never throws.
+ */
+
+export type PostResult = { ok: true; data: any; latencyMs: number } | { ok: false; error: string; latencyMs: number };
+
+export interface PostOptions {
+  retries?: number;
+  timeoutMs?: number;
+}
+
+const RETRYABLE_STATUSES = [429, 503, 529];
+
+// Retry-After is either delay-seconds or an HTTP date
+export function parseRetryAfter(header: string | null, now = Date.now()): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+export async function postJson(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  label: string,
+  { retries = 3, timeoutMs = 120000 }: PostOptions = {}
+): Promise<PostResult> {
+  const startTime = Date.now();
+
+  for (let attempt = 0; attempt < retries; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+        signal: controller.signal
+      });
+
+      const latencyMs = Date.now() - startTime;
+
+      if (RETRYABLE_STATUSES.includes(response.status) && attempt < retries - 1) {
+        // Rate limited or overloaded - wait as told, else exponential backoff
+        const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+        const waitTime = retryAfter ?? Math.pow(2, attempt + 1) * 5000; // 10s, 20s, 40s
+        console.log(`  ${label} returned ${response.status}, waiting ${(waitTime / 1000).toFixed(1)}s before retry ${attempt + 1}/${retries - 1}...`);
+        await new Promise(resolve => setTimeout(resolve, waitTime));
+        continue;
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`${label} API error:`, errorText);
+        return { ok: false, error: `ERROR: ${response.status} - ${errorText}`, latencyMs };
+      }
+
+      return { ok: true, data: await response.json(), latencyMs };
+    } catch (error: any) {
+      const latencyMs = Date.now() - startTime;
+      const message = error.name === 'AbortError' ? `timed out after ${timeoutMs / 1000}s` : error.message;
+      if (attempt === retries - 1) {
+        console.error(`${label} API error:`, message);
+        return { ok: false, error: `ERROR: ${message}`, latencyMs };
+      }
+      // Retry on network errors and timeouts
+      const waitTime = Math.pow(2, attempt + 1) * 2000;
+      console.log(`  ${label} ${message}, waiting ${waitTime / 1000}s before retry...`);
+      await new Promise(resolve => setTimeout(resolve, waitTime));
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  return { ok: false, error: 'ERROR: Max retries exceeded', latencyMs: Date.now() - startTime };
+}
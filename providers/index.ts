@@ -0,0 +1,148 @@
+/**
+ * Model Providers
+ *
+ * Registry of model backends and of the named models in models.json. Every
+ * provider returns the raw response text and latency; failures come back as
+ * an "ERROR: ..." response rather than throwing, so a single bad call never
+ * aborts a run.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createAnthropicProvider } from './anthropic';
+import { createClaudeCliProvider } from './claude-cli';
+import { createGeminiProvider } from './gemini';
+import { withLimits } from './limits';
+import { createMockProvider } from './mock';
+import { createOpenAIProvider } from './openai';
+import { GenerationRequest, ModelProvider, ModelResponse, ModelSpec, ProviderFactory } from './types';
+
+export type { ChatMessage, GenerationRequest, ModelPricing, ModelProvider, ModelResponse, ModelSpec, ProviderFactory, ProviderLimits, TokenUsage } from './types';
+export { costOf, estimateTokens, resolveUsage } from './usage';
+
+export const MODELS_PATH = path.join(__dirname, 'models.json');
+
+export class ModelRegistryError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid model registry:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+  }
+}
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+const PROVIDERS: Record<string, ProviderFactory> = {
+  'anthropic': createAnthropicProvider,
+  'claude-cli': createClaudeCliProvider,
+  'gemini': createGeminiProvider,
+  'openai': createOpenAIProvider,
+  'mock': createMockProvider
+};
+
+export function registerProvider(kind: string, factory: ProviderFactory) {
+  PROVIDERS[kind] = factory;
+}
+
+export function createProvider(spec: ModelSpec): ModelProvider {
+  const factory = PROVIDERS[spec.provider];
+  if (!factory) throw new ModelRegistryError([`${spec.name}: unknown provider "${spec.provider}"`]);
+  return factory(spec);
+}
+
+// Whether the spec's provider can take few-shot examples as separate chat turns
+export function supportsMultiTurn(spec: ModelSpec): boolean {
+  return createProvider(spec).multiTurn === true;
+}
+
+// One provider instance per spec, so stateful providers (the mock's script) persist
+// across calls; each is wrapped in its endpoint's concurrency and rate limits
+const providerCache = new Map<ModelSpec, ModelProvider>();
+
+export function getProvider(spec: ModelSpec): ModelProvider {
+  let provider = providerCache.get(spec);
+  if (!provider) {
+    provider = withLimits(createProvider(spec));
+    providerCache.set(spec, provider);
+  }
+  return provider;
+}
+
+// ============================================================================
+// MODEL REGISTRY
+// ============================================================================
+
+function validateModels(models: unknown): string[] {
+  if (!Array.isArray(models)) return ['models.json: expected an array of model specs'];
+
+  const issues: string[] = [];
+  const seen = new Set<string>();
+  models.forEach((spec: any, i: number) => {
+    const where = `models[${i}]`;
+    if (typeof spec !== 'object' || spec === null) {
+      issues.push(`${where}: expected an object`);
+      return;
+    }
+
+    if (typeof spec.name !== 'string' || !/^[\w.:-]+$/.test(spec.name)) issues.push(`${where}.name: expected an identifier`);
+    else if (seen.has(spec.name)) issues.push(`${where}.name: duplicate model "${spec.name}"`);
+    else seen.add(spec.name);
+
+    if (!(spec.provider in PROVIDERS)) issues.push(`${where}.provider: expected one of ${Object.keys(PROVIDERS).join(', ')}`);
+    for (const key of ['model', 'description', 'system', 'baseUrl', 'apiKeyEnv']) {
+      if (spec[key] !== undefined && typeof spec[key] !== 'string') issues.push(`${where}.${key}: expected a string`);
+    }
+    if (spec.temperature !== undefined && (typeof spec.temperature !== 'number' || spec.temperature < 0 || spec.temperature > 2)) {
+      issues.push(`${where}.temperature: expected a number between 0 and 2`);
+    }
+    if (spec.maxTokens !== undefined && (!Number.isInteger(spec.maxTokens) || spec.maxTokens < 1)) {
+      issues.push(`${where}.maxTokens: expected a positive integer`);
+    }
+    if (spec.pricing !== undefined && !(typeof spec.pricing?.input === 'number' && typeof spec.pricing?.output === 'number')) {
+      issues.push(`${where}.pricing: expected { input, output } in USD per million tokens`);
+    }
+    if (spec.limits !== undefined) {
+      for (const key of ['concurrency', 'requestsPerMinute', 'timeoutMs']) {
+        const value = spec.limits?.[key];
+        if (value !== undefined && !(typeof value === 'number' && value > 0)) issues.push(`${where}.limits.${key}: expected a positive number`);
+      }
+    }
+    if (spec.script !== undefined && !(Array.isArray(spec.script) && spec.script.every((s: unknown) => typeof s === 'string'))) {
+      issues.push(`${where}.script: expected a list of strings`);
+    }
+  });
+
+  return issues;
+}
+
+let registry: ModelSpec[] | null = null;
+
+export function loadModelRegistry(file = MODELS_PATH): ModelSpec[] {
+  let models: unknown;
+  try {
+    models = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error: any) {
+    throw new ModelRegistryError([`${file}: ${error.message}`]);
+  }
+
+  const issues = validateModels(models);
+  if (issues.length > 0) throw new ModelRegistryError(issues);
+  return models as ModelSpec[];
+}
+
+export function listModels(): ModelSpec[] {
+  registry ??= loadModelRegistry();
+  return registry;
+}
+
+export function getModelSpec(name: string): ModelSpec {
+  const spec = listModels().find(m => m.name === name);
+  if (!spec) {
+    throw new ModelRegistryError([`unknown model "${name}"; registered: ${listModels().map(m => m.name).join(', ')}`]);
+  }
+  return spec;
+}
+
+export async function callModel(name: string, prompt: string, options: Omit<GenerationRequest, 'prompt'> = {}): Promise<ModelResponse> {
+  return getProvider(getModelSpec(name)).generate({ ...options, prompt });
+}
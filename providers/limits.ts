@@ -0,0 +1,131 @@
+/**
+ * Provider Limits
+ *
+ * Concurrency caps and token-bucket rate limits, shared by every model that
+ * goes through the same provider endpoint, so parallel runs (and judge calls)
+ * stay under each API's limits.
+ */
+
+import { ModelProvider, ModelSpec, ProviderLimits } from './types';
+
+const DEFAULT_LIMITS: Record<string, ProviderLimits> = {
+  'claude-cli': { concurrency: 2, requestsPerMinute: 30, timeoutMs: 120000 },
+  'anthropic': { concurrency: 4, requestsPerMinute: 50, timeoutMs: 120000 },
+  'gemini': { concurrency: 4, requestsPerMinute: 15, timeoutMs: 120000 }, // Free tier is 15 RPM
+  'openai': { concurrency: 4, requestsPerMinute: 60, timeoutMs: 120000 },
+  'mock': { concurrency: 16, requestsPerMinute: Infinity, timeoutMs: 10000 }
+};
+
+const FALLBACK_LIMITS: ProviderLimits = { concurrency: 2, requestsPerMinute: 30, timeoutMs: 120000 };
+
+export function resolveLimits(spec: ModelSpec): ProviderLimits {
+  return { ...(DEFAULT_LIMITS[spec.provider] ?? FALLBACK_LIMITS), ...spec.limits };
+}
+
+// Models behind the same provider and base URL share one set of limits
+function endpointKey(spec: ModelSpec): string {
+  return `${spec.provider}|${spec.baseUrl ?? ''}`;
+}
+
+// ============================================================================
+// PRIMITIVES
+// ============================================================================
+
+export interface Semaphore {
+  acquire(): Promise<() => void>; // Resolves with the release function
+}
+
+export function createSemaphore(limit: number): Semaphore {
+  let active = 0;
+  const waiting: Array<() => void> = [];
+
+  const release = () => {
+    active--;
+    const next = waiting.shift();
+    if (next) {
+      active++;
+      next();
+    }
+  };
+
+  return {
+    acquire() {
+      if (active < limit) {
+        active++;
+        return Promise.resolve(release);
+      }
+      return new Promise(resolve => waiting.push(() => resolve(release)));
+    }
+  };
+}
+
+export interface TokenBucket {
+  take(): Promise<void>; // Resolves once a request token is available
+}
+
+// Starts full (so a burst of `capacity` calls goes out at once), then refills continuously
+export function createTokenBucket(requestsPerMinute: number, capacity: number): TokenBucket {
+  if (!isFinite(requestsPerMinute)) return { take: () => Promise.resolve() };
+
+  const refillPerMs = requestsPerMinute / 60000;
+  let tokens = capacity;
+  let lastRefill = Date.now();
+  let queue = Promise.resolve();
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + (now - lastRefill) * refillPerMs);
+    lastRefill = now;
+  };
+
+  return {
+    take() {
+      // Chain takers so tokens are handed out in request order
+      queue = queue.then(async () => {
+        refill();
+        if (tokens < 1) {
+          await new Promise(resolve => setTimeout(resolve, Math.ceil((1 - tokens) / refillPerMs)));
+          refill();
+        }
+        tokens -= 1;
+      });
+      return queue;
+    }
+  };
+}
+
+// ============================================================================
+// LIMITED PROVIDERS
+// ============================================================================
+
+const endpoints = new Map<string, { semaphore: Semaphore; bucket: TokenBucket }>();
+
+// Wrap a provider so each call waits for a concurrency slot and a rate-limit token.
+// The first model seen for an endpoint sets that endpoint's limits.
+export function withLimits(provider: ModelProvider): ModelProvider {
+  const key = endpointKey(provider.spec);
+  let endpoint = endpoints.get(key);
+  if (!endpoint) {
+    const limits = resolveLimits(provider.spec);
+    endpoint = {
+      semaphore: createSemaphore(limits.concurrency),
+      bucket: createTokenBucket(limits.requestsPerMinute, limits.concurrency)
+    };
+    endpoints.set(key, endpoint);
+  }
+  const { semaphore, bucket } = endpoint;
+
+  return {
+    spec: provider.spec,
+    multiTurn: provider.multiTurn,
+    async generate(request) {
+      const release = await semaphore.acquire();
+      try {
+        await bucket.take();
+        return await provider.generate(request);
+      } finally {
+        release();
+      }
+    }
+  };
+}
@@ -0,0 +1,28 @@
+/**
+ * Mock Provider
+ *
+ * Scripted, offline stand-in for a model. Returns the spec's `script`
+ * responses in order (cycling), or a canned answer that names the prompt
+ * length (and earlier turns) when no script is given. Responses starting with "ERROR" are passed
+ * through, so failure handling can be exercised too.
+ */
+
+import { GenerationRequest, ModelProvider, ModelSpec } from './types';
+
+export function createMockProvider(spec: ModelSpec): ModelProvider {
+  let calls = 0;
+
+  return {
+    spec,
+    multiTurn: true,
+    async generate(request: GenerationRequest) {
+      const script = spec.script ?? [];
+      const turns = request.history?.length ? ` after ${request.history.length} earlier turns` : '';
+      const response = script.length > 0
+        ? script[calls % script.length]
+        : `Mock response ${calls + 1} to a ${request.prompt.length}-character prompt${turns}.\n\n**Answer:** 42`;
+      calls++;
+      return { response, latencyMs: 0 };
+    }
+  };
+}
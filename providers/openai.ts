@@ -0,0 +1,60 @@
+/**
+ * OpenAI-Compatible Provider
+ *
+ * Chat Completions API. Also covers local servers that speak the same
+ * protocol (Ollama, vLLM, llama.cpp) via `baseUrl`; those usually need no key.
+ */
+
+import { postJson } from './http';
+import { resolveLimits } from './limits';
+import { GenerationRequest, ModelProvider, ModelSpec } from './types';
+
+export function createOpenAIProvider(spec: ModelSpec): ModelProvider {
+  const baseUrl = (spec.baseUrl ?? 'https://api.openai.com/v1').replace(/\/$/, '');
+  const apiKeyEnv = spec.apiKeyEnv ?? (spec.baseUrl ? undefined : 'OPENAI_API_KEY');
+
+  return {
+    spec,
+    multiTurn: true,
+    async generate(request: GenerationRequest) {
+      if (!spec.model) {
+        return { response: `ERROR: model "${spec.name}" has no provider model ID`, latencyMs: 0 };
+      }
+
+      const apiKey = apiKeyEnv ? process.env[apiKeyEnv] : undefined;
+      if (apiKeyEnv && !apiKey) {
+        return { response: `ERROR: ${apiKeyEnv} not found in environment`, latencyMs: 0 };
+      }
+
+      const system = request.system ?? spec.system;
+      const temperature = request.temperature ?? spec.temperature;
+      const maxTokens = request.maxTokens ?? spec.maxTokens;
+      const result = await postJson(
+        `${baseUrl}/chat/completions`,
+        apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        {
+          model: spec.model,
+          messages: [
+            ...(system ? [{ role: 'system', content: system }] : []),
+            ...(request.history ?? []),
+            { role: 'user', content: request.prompt }
+          ],
+          ...(temperature !== undefined && { temperature }),
+          ...(maxTokens !== undefined && { max_tokens: maxTokens })
+        },
+        'OpenAI-compatible',
+        { timeoutMs: resolveLimits(spec).timeoutMs }
+      );
+
+      if (!result.ok) return { response: result.error, latencyMs: result.latencyMs };
+
+      const text = result.data.choices?.[0]?.message?.content || 'No response';
+      const usage = result.data.usage;
+      return {
+        response: text.trim(),
+        latencyMs: result.latencyMs,
+        ...(usage && { usage: { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens } })
+      };
+    }
+  };
+}
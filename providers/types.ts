@@ -0,0 +1,66 @@
+/**
+ * Provider Types
+ *
+ * Shared shapes for model backends. A ModelSpec names a model and says which
+ * provider serves it with what defaults; a ModelProvider turns a generation
+ * request into response text.
+ */
+
+export interface ModelPricing {
+  input: number; // USD per million input tokens
+  output: number; // USD per million output tokens
+}
+
+export interface ProviderLimits {
+  concurrency: number; // Calls in flight at once
+  requestsPerMinute: number; // Token-bucket refill rate; Infinity for no limit
+  timeoutMs: number; // Per-call timeout
+}
+
+export interface ModelSpec {
+  name: string; // Name used in configs and recorded on results, e.g. 'gemini'
+  provider: string; // Registered provider: anthropic, claude-cli, gemini, openai or mock
+  model?: string; // Provider-side model ID, e.g. 'gemini-2.0-flash'
+  description?: string;
+  temperature?: number;
+  maxTokens?: number;
+  system?: string; // System prompt sent with every request
+  baseUrl?: string; // OpenAI-compatible servers (Ollama, vLLM, ...)
+  apiKeyEnv?: string; // Environment variable holding the API key
+  pricing?: ModelPricing;
+  limits?: Partial<ProviderLimits>; // Overrides the provider defaults in limits.ts
+  script?: string[]; // Mock only: responses returned in order, cycling
+}
+
+export interface TokenUsage {
+  inputTokens: number; // Prompt tokens, including the system prompt
+  outputTokens: number; // Completion tokens
+  estimated: boolean; // Counted offline (usage.ts) because the provider reported none
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface GenerationRequest {
+  prompt: string; // The final user turn
+  history?: ChatMessage[]; // Earlier turns, oldest first; multi-turn providers only
+  system?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface ModelResponse {
+  response: string; // "ERROR: ..." when the call failed
+  latencyMs: number;
+  usage?: { inputTokens: number; outputTokens: number }; // From the provider's usage metadata
+}
+
+export interface ModelProvider {
+  spec: ModelSpec;
+  multiTurn?: boolean; // Sends `history` as separate turns; others cannot take chat-format prompts
+  generate(request: GenerationRequest): Promise<ModelResponse>;
+}
+
+export type ProviderFactory = (spec: ModelSpec) => ModelProvider;
@@ -0,0 +1,118 @@
+/**
+ * Report Charts
+ *
+ * Static SVG and HTML fragments for the HTML report. Everything is rendered
+ * to strings up front, so the report needs no scripts, fonts or CDN and opens
+ * offline. Hovering a bar shows its exact value through the SVG <title>.
+ */
+
+export interface BarValue {
+  value: number;
+  lower?: number; // Confidence interval, drawn as a whisker
+  upper?: number;
+}
+
+export interface BarChart {
+  title: string;
+  groups: string[]; // Along the x axis
+  series: string[]; // One bar per series in each group, with a legend entry
+  value: (group: string, series: string) => BarValue | null;
+  format: (value: number) => string;
+  max?: number; // Top of the y axis; defaults to the largest value or upper bound
+}
+
+// Distinguishable on white and in greyscale print
+export const PALETTE = ['#4e79a7', '#f28e2b', '#59a14f', '#e15759', '#76b7b2', '#edc948', '#b07aa1', '#9c755f'];
+
+const WIDTH = 640;
+const HEIGHT = 280;
+const MARGIN = { top: 32, right: 16, bottom: 48, left: 56 };
+const TICKS = 5;
+
+// Coordinates to a tenth of a pixel keep the markup short
+const px = (value: number) => Math.round(value * 10) / 10;
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// ============================================================================
+// BAR CHARTS
+// ============================================================================
+
+// Round up to 1, 2 or 5 × 10^n so the ticks land on readable values
+function niceMax(value: number): number {
+  if (value <= 0) return 1;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+  return [1, 2, 5, 10].map(step => step * magnitude).find(step => step >= value)!;
+}
+
+export function barChart(chart: BarChart): string {
+  const values = chart.groups.map(group => chart.series.map(series => chart.value(group, series)));
+  const largest = Math.max(0, ...values.flat().map(v => v ? Math.max(v.value, v.upper ?? v.value) : 0));
+  const max = chart.max ?? niceMax(largest);
+
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const y = (value: number) => px(MARGIN.top + plotHeight * (1 - Math.min(value, max) / max));
+  const groupWidth = plotWidth / Math.max(1, chart.groups.length);
+  const barWidth = (groupWidth * 0.8) / Math.max(1, chart.series.length);
+
+  const parts: string[] = [
+    `<svg class="chart" viewBox="0 0 ${WIDTH} ${HEIGHT}" role="img" aria-label="${escapeHtml(chart.title)}">`,
+    `<text x="${MARGIN.left}" y="18" class="chart-title">${escapeHtml(chart.title)}</text>`
+  ];
+
+  for (let i = 0; i <= TICKS; i++) {
+    const value = (max * i) / TICKS;
+    parts.push(
+      `<line x1="${MARGIN.left}" x2="${WIDTH - MARGIN.right}" y1="${y(value)}" y2="${y(value)}" class="grid"/>`,
+      `<text x="${MARGIN.left - 6}" y="${y(value) + 4}" class="tick" text-anchor="end">${escapeHtml(chart.format(value))}</text>`
+    );
+  }
+
+  chart.groups.forEach((group, g) => {
+    const groupX = MARGIN.left + g * groupWidth + groupWidth * 0.1;
+    chart.series.forEach((series, s) => {
+      const bar = values[g][s];
+      if (!bar) return;
+      const x = px(groupX + s * barWidth);
+      const label = `${series}, ${group}: ${chart.format(bar.value)}` +
+        (bar.lower !== undefined && bar.upper !== undefined ? ` [${chart.format(bar.lower)}, ${chart.format(bar.upper)}]` : '');
+      parts.push(`<rect x="${x}" y="${y(bar.value)}" width="${px(barWidth - 2)}" height="${px(y(0) - y(bar.value))}" fill="${PALETTE[s % PALETTE.length]}"><title>${escapeHtml(label)}</title></rect>`);
+      // Cells where every cluster agrees have a zero-width interval; nothing to draw
+      if (bar.lower !== undefined && bar.upper !== undefined && bar.upper > bar.lower) {
+        const center = px(x + (barWidth - 2) / 2);
+        parts.push(`<path d="M${center} ${y(bar.lower)}V${y(bar.upper)}M${center - 4} ${y(bar.lower)}H${center + 4}M${center - 4} ${y(bar.upper)}H${center + 4}" class="whisker"/>`);
+      }
+    });
+    parts.push(`<text x="${px(MARGIN.left + (g + 0.5) * groupWidth)}" y="${HEIGHT - MARGIN.bottom + 16}" class="tick" text-anchor="middle">${escapeHtml(group)}</text>`);
+  });
+
+  // Legend along the bottom
+  let legendX = MARGIN.left;
+  chart.series.forEach((series, s) => {
+    parts.push(
+      `<rect x="${legendX}" y="${HEIGHT - 18}" width="10" height="10" fill="${PALETTE[s % PALETTE.length]}"/>`,
+      `<text x="${legendX + 14}" y="${HEIGHT - 9}" class="tick">${escapeHtml(series)}</text>`
+    );
+    legendX += 24 + series.length * 7;
+  });
+
+  parts.push('</svg>');
+  return parts.join('\n');
+}
+
+// ============================================================================
+// HEAT MAP
+// ============================================================================
+
+// Red at 0 through amber to green at 1
+export function heatColor(share: number): string {
+  return `hsl(${Math.round(Math.max(0, Math.min(1, share)) * 120)}, 65%, 72%)`;
+}
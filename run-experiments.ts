@@ -5,18 +5,44 @@
  * across mathematics, physics, chemistry, and biology problems.
  *
  * Run with: npx tsx scripts/stem-fewshot-experiments/run-experiments.ts
+ *   --config <file>  experiment matrix to run (default experiments/default.json)
+ *   --dry-run        expand the matrix and estimate cost without calling models
+ *   --run-id <id>    name the results directory (default: timestamp + config name)
+ *   --repetitions <n> override the config's samples per cell
+ *   --run <id>       with --retry-failed / --analyze-only, target results/runs/<id>
+ *   --concurrency <n> calls in flight at once (default 8; providers also self-limit)
+ *   --resume <id>    continue results/runs/<id>; cells already in the response cache are skipped
+ *   --offline        replay responses from the cache only; uncached cells fail instead of calling a model
+ *   --no-cache       neither read nor write the response cache
  */
 
-import { execSync } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as dotenv from 'dotenv';
+import { loadDataset } from './dataset';
+import {
+  conditionName,
+  createRunId,
+  DEFAULT_CONFIG_PATH,
+  expandMatrix,
+  ExperimentCell,
+  ExperimentConfig,
+  loadExperimentConfig,
+  PromptMode,
+  PromptVariant,
+  resolveModels
+} from './experiments/config';
+import { cacheKeyFor, openResponseCache, ResponseCache } from './experiments/cache';
+import { runPool, writeFileAtomic } from './experiments/engine';
+import { arrangeExamples, ExampleSelectorName, selectExamples } from './experiments/selectors';
+import { getPromptTemplate, PromptStyle, renderChatPrompt, renderPrompt } from './prompts';
+import { ChatMessage, costOf, GenerationRequest, getModelSpec, getProvider, ModelResponse, ModelSpec, resolveUsage, TokenUsage } from './providers';
 
 // Load environment variables
 dotenv.config({ path: path.resolve(__dirname, '../../.env.local') });
 
 const OUTPUT_DIR = path.join(__dirname, 'results');
-const PROMPTS_DIR = path.join(__dirname, 'prompts');
+const RUNS_DIR = path.join(OUTPUT_DIR, 'runs');
 
 // Ensure output directory exists
 if (!fs.existsSync(OUTPUT_DIR)) {
@@ -27,618 +53,257 @@ if (!fs.existsSync(OUTPUT_DIR)) {
 // EXPERIMENT DEFINITIONS
 // ============================================================================
 
-interface Problem {
-  id: string;
-  domain: 'math' | 'physics' | 'chemistry' | 'biology';
-  difficulty: 'easy' | 'medium' | 'hard';
-  prompt: string;
-  expectedAnswer?: string; // For verification
-  answerType: 'exact' | 'steps' | 'explanation';
-}
-
-interface FewShotExample {
-  problem: string;
-  solution: string;
-}
-
 interface ExperimentResult {
   problemId: string;
-  model: 'claude' | 'gemini';
-  condition: 'zero-shot' | '1-shot' | '3-shot' | '5-shot';
-  prompt: string;
+  model: string; // Model name from providers/models.json
+  modelId?: string; // Provider-side model ID, when the spec sets one
+  condition: string; // 'zero-shot' or '<n>-shot'
+  prompt: string; // In chat mode, the final user turn only
+  system?: string; // Chat mode: system prompt sent (model system prompt plus template instructions)
+  history?: ChatMessage[]; // Chat mode: example turns sent before the prompt
   response: string;
-  tokenCount: number;
+  tokenCount: number; // Completion tokens (usage.outputTokens)
+  usage?: TokenUsage; // Absent on failed calls
+  costUsd?: number; // From the model's pricing in providers/models.json
   latencyMs: number;
   timestamp: string;
+  datasetVersion: string;
+  runId?: string;
+  repetition?: number;
+  sample?: number; // Voting runs: 1-based sample within the vote
+  samples?: number; // Voting runs: samples per vote
+  cacheKey?: string; // Response cache key (experiments/cache.ts)
+  cached?: boolean; // Replayed from the response cache rather than a fresh call
+  temperature?: number;
+  promptVariant?: PromptVariant; // Template name from prompts/templates.json
+  templateVersion?: string;
+  promptMode?: PromptMode; // Absent on results from before chat-format prompts, which were all inline
+  promptStyle?: PromptStyle; // Absent on results from before prompt styles, which were all 'default'
+  selector?: ExampleSelectorName;
+  exampleSeed?: number;
+  arrangement?: string; // 'original', 'permutation-<n>' or 'drop-<i>' (experiments/selectors.ts)
+  exampleIds?: string[]; // Examples actually included, in prompt order
+  effectiveShots?: number; // exampleIds.length; below the condition's count when the pool runs short
 }
 
 // ============================================================================
-// TEST PROBLEMS
+// PROBLEMS AND FEW-SHOT EXAMPLES
 // ============================================================================
 
-const PROBLEMS: Problem[] = [
-  // MATHEMATICS
-  {
-    id: 'math-1',
-    domain: 'math',
-    difficulty: 'medium',
-    prompt: 'Find the integral of x²·sin(x) dx',
-    expectedAnswer: '-x²cos(x) + 2xsin(x) + 2cos(x) + C',
-    answerType: 'steps'
-  },
-  {
-    id: 'math-2',
-    domain: 'math',
-    difficulty: 'medium',
-    prompt: 'Find the derivative of ln(x²+1)·eˣ',
-    expectedAnswer: 'eˣ[ln(x²+1) + 2x/(x²+1)]',
-    answerType: 'steps'
-  },
-  {
-    id: 'math-3',
-    domain: 'math',
-    difficulty: 'easy',
-    prompt: 'Evaluate the limit: lim(x→0) sin(3x)/x',
-    expectedAnswer: '3',
-    answerType: 'steps'
-  },
-  {
-    id: 'math-4',
-    domain: 'math',
-    difficulty: 'hard',
-    prompt: 'Find the derivative of x^x (x to the power x)',
-    expectedAnswer: 'x^x(ln(x) + 1)',
-    answerType: 'steps'
-  },
-  {
-    id: 'math-5',
-    domain: 'math',
-    difficulty: 'medium',
-    prompt: 'Solve the definite integral: ∫₀^π sin²(x) dx',
-    expectedAnswer: 'π/2',
-    answerType: 'steps'
-  },
-
-  // PHYSICS
-  {
-    id: 'physics-1',
-    domain: 'physics',
-    difficulty: 'medium',
-    prompt: 'A ball is thrown at 45° with initial velocity 20 m/s. Find the maximum height and horizontal range. (Use g = 10 m/s²)',
-    expectedAnswer: 'Max height = 10 m, Range = 40 m',
-    answerType: 'steps'
-  },
-  {
-    id: 'physics-2',
-    domain: 'physics',
-    difficulty: 'medium',
-    prompt: 'A 2 kg mass on a spring (k = 50 N/m) is displaced 0.1 m from equilibrium. Find the period of oscillation and maximum velocity.',
-    expectedAnswer: 'Period = 1.26 s, Max velocity = 0.5 m/s',
-    answerType: 'steps'
-  },
-  {
-    id: 'physics-3',
-    domain: 'physics',
-    difficulty: 'easy',
-    prompt: 'A car accelerates from rest at 3 m/s² for 5 seconds. Find the final velocity and distance traveled.',
-    expectedAnswer: 'Final velocity = 15 m/s, Distance = 37.5 m',
-    answerType: 'steps'
-  },
-  {
-    id: 'physics-4',
-    domain: 'physics',
-    difficulty: 'hard',
-    prompt: 'Two capacitors of 4 μF and 6 μF are connected in series across a 100V supply. Find the equivalent capacitance and energy stored.',
-    expectedAnswer: 'Equivalent capacitance = 2.4 μF, Energy = 12 mJ',
-    answerType: 'steps'
-  },
-
-  // CHEMISTRY
-  {
-    id: 'chem-1',
-    domain: 'chemistry',
-    difficulty: 'medium',
-    prompt: 'Balance the equation: Fe + O₂ + H₂O → Fe(OH)₃',
-    expectedAnswer: '4Fe + 3O₂ + 6H₂O → 4Fe(OH)₃',
-    answerType: 'steps'
-  },
-  {
-    id: 'chem-2',
-    domain: 'chemistry',
-    difficulty: 'easy',
-    prompt: 'Balance the equation: Al + O₂ → Al₂O₃',
-    expectedAnswer: '4Al + 3O₂ → 2Al₂O₃',
-    answerType: 'steps'
-  },
-  {
-    id: 'chem-3',
-    domain: 'chemistry',
-    difficulty: 'medium',
-    prompt: 'How many grams of NaCl are needed to prepare 500 mL of a 0.5 M solution? (Molar mass of NaCl = 58.5 g/mol)',
-    expectedAnswer: '14.625 g',
-    answerType: 'steps'
-  },
-  {
-    id: 'chem-4',
-    domain: 'chemistry',
-    difficulty: 'hard',
-    prompt: 'Balance the redox reaction in acidic medium: MnO₄⁻ + Fe²⁺ → Mn²⁺ + Fe³⁺',
-    expectedAnswer: 'MnO₄⁻ + 8H⁺ + 5Fe²⁺ → Mn²⁺ + 5Fe³⁺ + 4H₂O',
-    answerType: 'steps'
-  },
-
-  // BIOLOGY
-  {
-    id: 'bio-1',
-    domain: 'biology',
-    difficulty: 'medium',
-    prompt: 'List the main steps of glycolysis and the net ATP yield.',
-    answerType: 'explanation'
-  },
-  {
-    id: 'bio-2',
-    domain: 'biology',
-    difficulty: 'medium',
-    prompt: 'Explain the process of DNA replication, including the key enzymes involved.',
-    answerType: 'explanation'
-  },
-  {
-    id: 'bio-3',
-    domain: 'biology',
-    difficulty: 'easy',
-    prompt: 'What are the four nitrogenous bases in DNA and how do they pair?',
-    expectedAnswer: 'A-T, G-C base pairing',
-    answerType: 'explanation'
-  }
-];
+// Problems, reference answers and example pools live in dataset/ (validated on load);
+// which examples a prompt gets is up to the cell's selector (experiments/selectors.ts)
+const DATASET = loadDataset();
+const PROBLEMS = DATASET.problems;
 
 // ============================================================================
-// FEW-SHOT EXAMPLES
-// ============================================================================
-
-const MATH_EXAMPLES: FewShotExample[] = [
-  {
-    problem: 'Find the derivative of x³',
-    solution: `**Solution:**
-- Apply power rule: $\\frac{d}{dx}[x^n] = nx^{n-1}$
-- $\\frac{d}{dx}[x^3] = 3x^2$
-- **Answer:** $\\boxed{3x^2}$`
-  },
-  {
-    problem: 'Find the derivative of x·sin(x)',
-    solution: `**Solution:**
-- Apply product rule: $(uv)' = u'v + uv'$
-- Let $u = x$, $v = \\sin(x)$
-- $u' = 1$, $v' = \\cos(x)$
-- $\\frac{d}{dx}[x \\cdot \\sin(x)] = 1 \\cdot \\sin(x) + x \\cdot \\cos(x)$
-- **Answer:** $\\boxed{\\sin(x) + x\\cos(x)}$`
-  },
-  {
-    problem: 'Find the derivative of sin(x²)',
-    solution: `**Solution:**
-- Apply chain rule: $\\frac{d}{dx}[f(g(x))] = f'(g(x)) \\cdot g'(x)$
-- Outer function: $\\sin(u)$, Inner function: $u = x^2$
-- $\\frac{d}{dx}[\\sin(x^2)] = \\cos(x^2) \\cdot 2x$
-- **Answer:** $\\boxed{2x\\cos(x^2)}$`
-  },
-  {
-    problem: 'Find the derivative of ln(3x+1)',
-    solution: `**Solution:**
-- Apply chain rule with logarithm: $\\frac{d}{dx}[\\ln(u)] = \\frac{1}{u} \\cdot u'$
-- $\\frac{d}{dx}[\\ln(3x+1)] = \\frac{1}{3x+1} \\cdot 3$
-- **Answer:** $\\boxed{\\frac{3}{3x+1}}$`
-  },
-  {
-    problem: 'Evaluate the integral ∫ x·eˣ dx',
-    solution: `**Solution:**
-- Apply integration by parts: $\\int u \\, dv = uv - \\int v \\, du$
-- Let $u = x$, $dv = e^x dx$
-- Then $du = dx$, $v = e^x$
-- $\\int x \\cdot e^x dx = x \\cdot e^x - \\int e^x dx = xe^x - e^x + C$
-- **Answer:** $\\boxed{e^x(x-1) + C}$`
-  }
-];
-
-const PHYSICS_EXAMPLES: FewShotExample[] = [
-  {
-    problem: 'A car accelerates from rest at 2 m/s² for 4 seconds. Find the final velocity and distance.',
-    solution: `**Solution:**
-
-| Known | Value |
-|-------|-------|
-| Initial velocity ($v_0$) | 0 m/s |
-| Acceleration ($a$) | 2 m/s² |
-| Time ($t$) | 4 s |
-
-**Find:** Final velocity ($v$), Distance ($s$)
-
-**Equations:**
-- $v = v_0 + at$
-- $s = v_0 t + \\frac{1}{2}at^2$
-
-**Calculation:**
-- $v = 0 + (2)(4) = 8$ m/s
-- $s = 0 + \\frac{1}{2}(2)(4)^2 = 16$ m
-
-**Answer:** $v = 8$ m/s, $s = 16$ m`
-  },
-  {
-    problem: 'A projectile is launched at 30° with velocity 10 m/s. Find max height. (g = 10 m/s²)',
-    solution: `**Solution:**
-
-| Known | Value |
-|-------|-------|
-| Initial velocity ($v_0$) | 10 m/s |
-| Angle ($\\theta$) | 30° |
-| g | 10 m/s² |
-
-**Find:** Maximum height ($H$)
-
-**Equations:**
-- $v_{0y} = v_0 \\sin\\theta$
-- $H = \\frac{v_{0y}^2}{2g}$
-
-**Calculation:**
-- $v_{0y} = 10 \\times \\sin(30°) = 10 \\times 0.5 = 5$ m/s
-- $H = \\frac{5^2}{2 \\times 10} = \\frac{25}{20} = 1.25$ m
-
-**Answer:** $H = 1.25$ m`
-  },
-  {
-    problem: 'Find the period of a simple pendulum of length 1 m. (g = 10 m/s²)',
-    solution: `**Solution:**
-
-| Known | Value |
-|-------|-------|
-| Length ($L$) | 1 m |
-| g | 10 m/s² |
-
-**Find:** Period ($T$)
-
-**Equation:** $T = 2\\pi\\sqrt{\\frac{L}{g}}$
-
-**Calculation:**
-- $T = 2\\pi\\sqrt{\\frac{1}{10}} = 2\\pi \\times 0.316 = 1.99$ s
-
-**Answer:** $T \\approx 2$ s`
-  }
-];
-
-const CHEMISTRY_EXAMPLES: FewShotExample[] = [
-  {
-    problem: 'Balance: H₂ + O₂ → H₂O',
-    solution: `**Solution:**
-- Unbalanced: H₂ + O₂ → H₂O
-
-| Atom | Left | Right |
-|------|------|-------|
-| H | 2 | 2 |
-| O | 2 | 1 |
-
-- O is unbalanced. Put coefficient 2 before H₂O: H₂ + O₂ → 2H₂O
-- Now H is unbalanced (2 vs 4). Put coefficient 2 before H₂: 2H₂ + O₂ → 2H₂O
-
-**Verification:**
-| Atom | Left | Right |
-|------|------|-------|
-| H | 4 | 4 ✓ |
-| O | 2 | 2 ✓ |
-
-**Answer:** $2H_2 + O_2 \\rightarrow 2H_2O$`
-  },
-  {
-    problem: 'Balance: N₂ + H₂ → NH₃',
-    solution: `**Solution:**
-- Unbalanced: N₂ + H₂ → NH₃
-
-| Atom | Left | Right |
-|------|------|-------|
-| N | 2 | 1 |
-| H | 2 | 3 |
-
-- Put coefficient 2 before NH₃: N₂ + H₂ → 2NH₃
-- Now H: 2 left, 6 right. Put coefficient 3 before H₂: N₂ + 3H₂ → 2NH₃
-
-**Verification:**
-| Atom | Left | Right |
-|------|------|-------|
-| N | 2 | 2 ✓ |
-| H | 6 | 6 ✓ |
-
-**Answer:** $N_2 + 3H_2 \\rightarrow 2NH_3$`
-  }
-];
-
-const BIOLOGY_EXAMPLES: FewShotExample[] = [
-  {
-    problem: 'Describe the phases of mitosis.',
-    solution: `**Overview:** Mitosis is cell division that produces two identical daughter cells.
-
-**Location:** Nucleus of eukaryotic cells
-
-**Phases:**
-| Phase | Key Events |
-|-------|------------|
-| Prophase | Chromatin condenses, nuclear envelope breaks down |
-| Metaphase | Chromosomes align at cell equator |
-| Anaphase | Sister chromatids separate to opposite poles |
-| Telophase | Nuclear envelopes reform, cytokinesis begins |
-
-**Result:** 2 genetically identical diploid cells`
-  }
-];
-
-// ============================================================================
-// PROMPT BUILDERS
+// EXPERIMENT RUNNER
 // ============================================================================
 
-function buildMathPrompt(problem: string, numExamples: number): string {
-  const header = `You are solving a mathematics problem. Show your work step-by-step using LaTeX notation ($...$ for inline, $$...$$ for display). Box your final answer.
-
-`;
-
-  if (numExamples === 0) {
-    return header + `**Problem:** ${problem}`;
-  }
-
-  const examples = MATH_EXAMPLES.slice(0, numExamples);
-  let prompt = header + `Here are some examples of how to solve problems:\n\n`;
+// Rough output length for cost estimates; observed averages were 230-300 tokens
+const ESTIMATED_OUTPUT_TOKENS = 300;
 
-  examples.forEach((ex, i) => {
-    prompt += `### Example ${i + 1}:\n**Problem:** ${ex.problem}\n\n${ex.solution}\n\n---\n\n`;
-  });
+// Calls in flight across all models; each provider also enforces its own limits
+const DEFAULT_CONCURRENCY = 8;
 
-  prompt += `Now solve this problem:\n\n**Problem:** ${problem}`;
-  return prompt;
+interface CacheOptions {
+  cache: ResponseCache | null; // null with --no-cache
+  offline: boolean; // Cache misses fail instead of calling the model
 }
 
-function buildPhysicsPrompt(problem: string, numExamples: number): string {
-  const header = `You are solving a physics problem. Follow this format:
-1. List known quantities with units in a table
-2. Identify what to find
-3. Write relevant equations
-4. Show calculations
-5. State final answer with units
-
-`;
-
-  if (numExamples === 0) {
-    return header + `**Problem:** ${problem}`;
+const NO_CACHE: CacheOptions = { cache: null, offline: false };
+
+function cellRequest(cell: ExperimentCell) {
+  const selected = selectExamples(cell.selector, cell.problem, DATASET.examples, cell.shots, cell.exampleSeed);
+  const examples = arrangeExamples(selected, cell.arrangement, cell.exampleSeed);
+  const template = getPromptTemplate(cell.promptVariant);
+
+  let request: GenerationRequest;
+  if (cell.promptMode === 'chat') {
+    // Instructions join the model's own system prompt rather than replacing it
+    const chat = renderChatPrompt(template, cell.problem, examples, cell.promptStyle);
+    const system = [cell.model.system, chat.system].filter(Boolean).join('\n\n');
+    request = { prompt: chat.prompt, history: chat.history, ...(system && { system }), temperature: cell.temperature };
+  } else {
+    request = { prompt: renderPrompt(template, cell.problem, examples, cell.promptStyle), temperature: cell.temperature };
   }
-
-  const examples = PHYSICS_EXAMPLES.slice(0, numExamples);
-  let prompt = header + `Here are some examples:\n\n`;
-
-  examples.forEach((ex, i) => {
-    prompt += `### Example ${i + 1}:\n**Problem:** ${ex.problem}\n\n${ex.solution}\n\n---\n\n`;
-  });
-
-  prompt += `Now solve:\n\n**Problem:** ${problem}`;
-  return prompt;
-}
-
-function buildChemistryPrompt(problem: string, numExamples: number): string {
-  const header = `You are solving a chemistry problem. For balancing equations:
-1. Write unbalanced equation
-2. Count atoms on each side in a table
-3. Balance systematically
-4. Verify with atom count table
-
-`;
-
-  if (numExamples === 0) {
-    return header + `**Problem:** ${problem}`;
-  }
-
-  const examples = CHEMISTRY_EXAMPLES.slice(0, numExamples);
-  let prompt = header + `Here are examples:\n\n`;
-
-  examples.forEach((ex, i) => {
-    prompt += `### Example ${i + 1}:\n**Problem:** ${ex.problem}\n\n${ex.solution}\n\n---\n\n`;
-  });
-
-  prompt += `Now solve:\n\n**Problem:** ${problem}`;
-  return prompt;
-}
-
-function buildBiologyPrompt(problem: string, numExamples: number): string {
-  const header = `You are explaining a biology concept. Use this format:
-1. Brief overview (1-2 sentences)
-2. Location (where it occurs)
-3. Key steps or components in a table
-4. Important molecules/factors involved
-
-`;
-
-  if (numExamples === 0) {
-    return header + `**Topic:** ${problem}`;
-  }
-
-  const examples = BIOLOGY_EXAMPLES.slice(0, numExamples);
-  let prompt = header + `Here is an example:\n\n`;
-
-  examples.forEach((ex, i) => {
-    prompt += `### Example ${i + 1}:\n**Topic:** ${ex.problem}\n\n${ex.solution}\n\n---\n\n`;
-  });
-
-  prompt += `Now explain:\n\n**Topic:** ${problem}`;
-  return prompt;
+  return { request, examples, template, cacheKey: cacheKeyFor(cell.model, request, cell.repetition, cell.sample) };
 }
 
-function buildPrompt(problem: Problem, numExamples: number): string {
-  switch (problem.domain) {
-    case 'math':
-      return buildMathPrompt(problem.prompt, numExamples);
-    case 'physics':
-      return buildPhysicsPrompt(problem.prompt, numExamples);
-    case 'chemistry':
-      return buildChemistryPrompt(problem.prompt, numExamples);
-    case 'biology':
-      return buildBiologyPrompt(problem.prompt, numExamples);
-  }
-}
-
-// ============================================================================
-// API CALLS
-// ============================================================================
-
-function callClaude(prompt: string): { response: string; latencyMs: number } {
-  const tempFile = '/tmp/claude-prompt.txt';
-  fs.writeFileSync(tempFile, prompt);
-
-  const startTime = Date.now();
-  try {
-    const result = execSync(`cat "${tempFile}" | claude -p --output-format text`, {
-      encoding: 'utf-8',
-      maxBuffer: 50 * 1024 * 1024,
-      timeout: 120000, // 2 minute timeout
-    });
-    const latencyMs = Date.now() - startTime;
-    return { response: result.trim(), latencyMs };
-  } catch (error: any) {
-    const latencyMs = Date.now() - startTime;
-    console.error('Claude CLI error:', error.message);
-    return { response: `ERROR: ${error.message}`, latencyMs };
-  }
-}
-
-async function callGemini(prompt: string, retries = 3): Promise<{ response: string; latencyMs: number }> {
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    return { response: 'ERROR: GEMINI_API_KEY not found in environment', latencyMs: 0 };
-  }
-
-  const startTime = Date.now();
-
-  for (let attempt = 0; attempt < retries; attempt++) {
-    try {
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            contents: [{
-              parts: [{ text: prompt }]
-            }],
-            generationConfig: {
-              temperature: 0.7,
-              maxOutputTokens: 2048,
-            }
-          })
-        }
-      );
-
-      const latencyMs = Date.now() - startTime;
-
-      if (response.status === 429) {
-        // Rate limited - exponential backoff
-        const waitTime = Math.pow(2, attempt + 1) * 5000; // 10s, 20s, 40s
-        console.log(`  Rate limited, waiting ${waitTime / 1000}s before retry ${attempt + 1}/${retries}...`);
-        await new Promise(resolve => setTimeout(resolve, waitTime));
-        continue;
-      }
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Gemini API error:', errorText);
-        return { response: `ERROR: ${response.status} - ${errorText}`, latencyMs };
-      }
-
-      const data = await response.json();
-      const text = data.candidates?.[0]?.content?.parts?.[0]?.text || 'No response';
-      return { response: text.trim(), latencyMs };
-    } catch (error: any) {
-      const latencyMs = Date.now() - startTime;
-      if (attempt === retries - 1) {
-        console.error('Gemini API error:', error.message);
-        return { response: `ERROR: ${error.message}`, latencyMs };
-      }
-      // Retry on network errors
-      const waitTime = Math.pow(2, attempt + 1) * 2000;
-      console.log(`  Network error, waiting ${waitTime / 1000}s before retry...`);
-      await new Promise(resolve => setTimeout(resolve, waitTime));
+async function runExperiment(cell: ExperimentCell, runId?: string, { cache, offline } = NO_CACHE): Promise<ExperimentResult> {
+  const { problem, model, shots, repetition, temperature, promptVariant, promptMode, promptStyle, selector, exampleSeed, arrangement, sample, samples } = cell;
+  const condition = conditionName(shots);
+  const { request, examples, template, cacheKey } = cellRequest(cell);
+  const { prompt } = request;
+
+  let response: string;
+  let latencyMs: number;
+  let reported: ModelResponse['usage'];
+  const cached = cache?.get(cacheKey);
+  if (cached) {
+    ({ response, latencyMs, usage: reported } = cached);
+  } else if (offline) {
+    response = 'ERROR: not in the response cache (offline replay)';
+    latencyMs = 0;
+  } else {
+    console.log(`  Running ${model.name} ${condition} for ${problem.id} (${promptVariant}${promptMode === 'chat' ? ' chat' : ''}${promptStyle === 'default' ? '' : ` ${promptStyle}`}, ${selector} examples${arrangement === 'original' ? '' : ` ${arrangement}`}, T=${temperature}, rep ${repetition}${samples > 1 ? `, sample ${sample}/${samples}` : ''})...`);
+    ({ response, latencyMs, usage: reported } = await getProvider(model).generate(request));
+
+    // Failures stay uncached so the next run retries them
+    if (cache && !response.startsWith('ERROR')) {
+      cache.put({
+        key: cacheKey,
+        provider: model.provider,
+        model: model.model ?? model.name,
+        temperature,
+        repetition,
+        ...(sample > 1 && { sample }),
+        response,
+        latencyMs,
+        ...(reported && { usage: reported }),
+        createdAt: new Date().toISOString()
+      });
     }
   }
 
-  return { response: 'ERROR: Max retries exceeded', latencyMs: Date.now() - startTime };
-}
-
-function countTokensApprox(text: string): number {
-  // Rough approximation: ~4 characters per token
-  return Math.ceil(text.length / 4);
-}
-
-// ============================================================================
-// EXPERIMENT RUNNER
-// ============================================================================
-
-async function runExperiment(
-  problem: Problem,
-  model: 'claude' | 'gemini',
-  numExamples: number
-): Promise<ExperimentResult> {
-  const condition = numExamples === 0 ? 'zero-shot' : `${numExamples}-shot`;
-  const prompt = buildPrompt(problem, numExamples);
-
-  console.log(`  Running ${model} ${condition} for ${problem.id}...`);
-
-  const { response, latencyMs } = model === 'claude'
-    ? callClaude(prompt)
-    : await callGemini(prompt);
+  const failed = response.startsWith('ERROR');
+  const usage = failed ? undefined : resolveUsage({ ...request, system: request.system ?? model.system }, response, reported);
+  const costUsd = usage && costOf(model.pricing, usage);
 
   return {
     problemId: problem.id,
-    model,
-    condition: condition as ExperimentResult['condition'],
+    model: model.name,
+    ...(model.model && { modelId: model.model }),
+    condition,
     prompt,
+    ...(promptMode === 'chat' && { system: request.system, history: request.history }),
     response,
-    tokenCount: countTokensApprox(response),
+    tokenCount: usage?.outputTokens ?? 0,
+    ...(usage && { usage }),
+    ...(costUsd != null && { costUsd }),
     latencyMs,
-    timestamp: new Date().toISOString()
+    timestamp: new Date().toISOString(),
+    datasetVersion: DATASET.version,
+    runId,
+    repetition,
+    ...(samples > 1 && { sample, samples }),
+    temperature,
+    promptVariant,
+    templateVersion: template.version,
+    promptMode,
+    promptStyle,
+    selector,
+    ...((selector === 'random' || arrangement.startsWith('permutation')) && { exampleSeed }),
+    arrangement,
+    exampleIds: examples.map(ex => ex.id),
+    effectiveShots: examples.length,
+    cacheKey,
+    ...(cached && { cached: true })
   };
 }
 
-async function runAllExperiments() {
-  const results: ExperimentResult[] = [];
-  const conditions = [0, 1, 3, 5]; // number of examples
-  // Using both Claude and Gemini (Gemini via API)
-  const models: Array<'claude' | 'gemini'> = ['claude', 'gemini'];
+function previewRun(config: ExperimentConfig, cells: ExperimentCell[], cache: ResponseCache | null) {
+  const problemIds = new Set(cells.map(c => c.problem.id));
+
+  console.log(`Config: ${config.name}${config.description ? ` - ${config.description}` : ''}`);
+  console.log(`Dataset: ${DATASET.name} v${DATASET.version}`);
+  console.log(`Problems: ${problemIds.size}`);
+  const models = [...new Set(cells.map(c => c.model))];
+  console.log(`Models: ${models.map(m => m.name).join(', ')}`);
+  console.log(`Conditions: ${config.shots.map(conditionName).join(', ')}`);
+  console.log(`Prompt templates: ${[...new Set(cells.map(c => c.promptVariant))].map(name => `${name}@${getPromptTemplate(name).version}`).join(', ')}`);
+  console.log(`Prompt modes: ${[...new Set(cells.map(c => c.promptMode))].join(', ')}`);
+  console.log(`Prompt styles: ${[...new Set(cells.map(c => c.promptStyle))].join(', ')}`);
+  console.log(`Example selectors: ${[...new Set(cells.map(c => c.selector))].join(', ')}`);
+  if (config.sensitivity) {
+    const { permutations = 0, leaveOneOut = false } = config.sensitivity;
+    console.log(`Sensitivity: ${permutations} permutation(s)${leaveOneOut ? ' + leave-one-out' : ''} per example set (${cells.filter(c => c.arrangement !== 'original').length} extra cells)`);
+  }
+  console.log(`Temperatures: ${[...new Set(cells.map(c => c.temperature))].join(', ')}`);
+  console.log(`Repetitions: ${config.repetitions ?? 1}`);
+  if (config.voting) console.log(`Voting: ${config.voting.samples} samples per cell, majority-voted`);
+  console.log(`Total experiments: ${cells.length}`);
+
+  // Small example pools cap the shot count (biology has a single example)
+  const shortCells = cells.filter(c => c.arrangement === 'original' && cellRequest(c).examples.length < c.shots);
+  if (shortCells.length > 0) {
+    const problems = [...new Set(shortCells.map(c => c.problem.id))];
+    console.log(`Warning: ${shortCells.length} cells get fewer examples than their shot count (${problems.join(', ')})`);
+  }
+
+  // Only cells missing from the cache will call a model
+  const uncached = cache ? cells.filter(c => !cache.get(cellRequest(c).cacheKey)) : cells;
+  if (cache) console.log(`Cached: ${cells.length - uncached.length} of ${cells.length} (${cache.file})`);
+  console.log('');
+
+  console.log('Estimated cost:');
+  console.log('| Model  | Calls | Input Tokens | Output Tokens | Cost (USD) |');
+  console.log('|--------|-------|--------------|---------------|------------|');
+
+  let totalCost = 0;
+  for (const model of models) {
+    const modelCells = uncached.filter(c => c.model === model);
+    // Counts chat-mode example turns and system prompts too; inline prompts are the text alone, as before
+    const inputTokens = modelCells.reduce((sum, c) => sum + resolveUsage(cellRequest(c).request, '').inputTokens, 0);
+    const outputTokens = modelCells.length * ESTIMATED_OUTPUT_TOKENS;
+    const cost = model.pricing
+      ? (inputTokens * model.pricing.input + outputTokens * model.pricing.output) / 1e6
+      : null;
+    totalCost += cost ?? 0;
+
+    const costLabel = cost === null ? 'no pricing' : '$' + cost.toFixed(2);
+    console.log(`| ${model.name.padEnd(6)} | ${modelCells.length.toString().padStart(5)} | ${inputTokens.toString().padStart(12)} | ${outputTokens.toString().padStart(13)} | ${costLabel.padStart(10)} |`);
+  }
+  console.log(`\nTotal estimated cost: $${totalCost.toFixed(2)} (output assumed ${ESTIMATED_OUTPUT_TOKENS} tokens per call)\n`);
+}
+
+async function runAllExperiments(config: ExperimentConfig, runId: string, concurrency: number, cacheOptions: CacheOptions) {
+  const cells = expandMatrix(config, DATASET);
+  const runDir = path.join(RUNS_DIR, runId);
+  const outputPath = path.join(runDir, 'experiment-results.json');
 
   console.log('Starting STEM Few-Shot Experiments');
   console.log('==================================\n');
-  console.log(`Problems: ${PROBLEMS.length}`);
-  console.log(`Models: ${models.join(', ')}`);
-  console.log(`Conditions: zero-shot, 1-shot, 3-shot, 5-shot`);
-  console.log(`Total experiments: ${PROBLEMS.length * models.length * conditions.length}\n`);
-
-  for (const problem of PROBLEMS) {
-    console.log(`\nProblem: ${problem.id} (${problem.domain})`);
-
-    for (const model of models) {
-      for (const numExamples of conditions) {
-        try {
-          const result = await runExperiment(problem, model, numExamples);
-          results.push(result);
-
-          // Save intermediate results
-          const outputPath = path.join(OUTPUT_DIR, 'experiment-results.json');
-          fs.writeFileSync(outputPath, JSON.stringify(results, null, 2));
-
-          // Small delay to avoid rate limiting
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        } catch (error) {
-          console.error(`  Error: ${error}`);
-        }
-      }
-    }
+  console.log(`Run ID: ${runId}`);
+  console.log(`Concurrency: ${concurrency}${cacheOptions.offline ? ' (offline replay)' : ''}`);
+  previewRun(config, cells, cacheOptions.cache);
+
+  // A resumed run keeps the snapshot it started with
+  const snapshotPath = path.join(runDir, 'config.json');
+  fs.mkdirSync(runDir, { recursive: true });
+  if (!fs.existsSync(snapshotPath)) {
+    writeFileAtomic(snapshotPath, JSON.stringify({
+      runId,
+      datasetVersion: DATASET.version,
+      datasetContentHash: DATASET.contentHash,
+      startedAt: new Date().toISOString(),
+      config
+    }, null, 2));
   }
 
+  // Results stay in matrix order however the calls finish
+  const completed: Array<ExperimentResult | undefined> = new Array(cells.length);
+  const startTime = Date.now();
+  let doneCount = 0;
+
+  await runPool(cells, concurrency, cell => runExperiment(cell, runId, cacheOptions), {
+    onResult: (result, cell, index) => {
+      completed[index] = result;
+      doneCount++;
+      const status = result.response.startsWith('ERROR') ? 'failed' : result.cached ? 'cached' : 'done';
+      console.log(`  [${doneCount}/${cells.length}] ${status}: ${cell.problem.id} - ${cell.model.name} - ${result.condition} (${result.latencyMs}ms)`);
+
+      // Save intermediate results
+      writeFileAtomic(outputPath, JSON.stringify(completed.filter(Boolean), null, 2));
+    },
+    onError: (error, cell) => console.error(`  Error: ${cell.problem.id} - ${cell.model.name}: ${error}`)
+  });
+
+  const results = completed.filter((r): r is ExperimentResult => r !== undefined);
+
   console.log('\n==================================');
-  console.log('Experiments complete!');
-  console.log(`Results saved to: ${path.join(OUTPUT_DIR, 'experiment-results.json')}`);
+  console.log(`Experiments complete in ${((Date.now() - startTime) / 1000).toFixed(0)}s!`);
+  console.log(`From cache: ${results.filter(r => r.cached).length}, failed: ${results.filter(r => r.response.startsWith('ERROR')).length}`);
+  console.log(`Results saved to: ${outputPath}`);
 
   return results;
 }
@@ -647,7 +312,7 @@ async function runAllExperiments() {
 // ANALYSIS
 // ============================================================================
 
-function analyzeResults(results: ExperimentResult[]) {
+function analyzeResults(results: ExperimentResult[], outputDir: string) {
   console.log('\n\nANALYSIS');
   console.log('========\n');
 
@@ -661,26 +326,29 @@ function analyzeResults(results: ExperimentResult[]) {
   }
 
   // Calculate averages
-  const summary: Record<string, { avgTokens: number; avgLatency: number; count: number }> = {};
+  const summary: Record<string, { avgPromptTokens: number; avgTokens: number; avgLatency: number; totalCost: number; count: number }> = {};
 
   for (const [key, group] of Object.entries(grouped)) {
+    const avgPromptTokens = group.reduce((sum, r) => sum + (r.usage?.inputTokens ?? 0), 0) / group.length;
     const avgTokens = group.reduce((sum, r) => sum + r.tokenCount, 0) / group.length;
     const avgLatency = group.reduce((sum, r) => sum + r.latencyMs, 0) / group.length;
-    summary[key] = { avgTokens, avgLatency, count: group.length };
+    const totalCost = group.reduce((sum, r) => sum + (r.costUsd ?? 0), 0);
+    summary[key] = { avgPromptTokens, avgTokens, avgLatency, totalCost, count: group.length };
   }
 
   // Print summary table
   console.log('Summary by Model and Condition:');
-  console.log('| Model | Condition | Avg Tokens | Avg Latency (ms) | Count |');
-  console.log('|-------|-----------|------------|------------------|-------|');
+  console.log('| Model | Condition | Avg Prompt Tokens | Avg Tokens | Avg Latency (ms) | Cost (USD) | Count |');
+  console.log('|-------|-----------|-------------------|------------|------------------|------------|-------|');
 
   for (const [key, stats] of Object.entries(summary)) {
-    const [model, condition] = key.split('-');
-    console.log(`| ${model.padEnd(6)} | ${condition.padEnd(9)} | ${stats.avgTokens.toFixed(0).padStart(10)} | ${stats.avgLatency.toFixed(0).padStart(16)} | ${stats.count.toString().padStart(5)} |`);
+    const { model, condition } = grouped[key][0];
+    console.log(`| ${model.padEnd(6)} | ${condition.padEnd(9)} | ${stats.avgPromptTokens.toFixed(0).padStart(17)} | ${stats.avgTokens.toFixed(0).padStart(10)} | ${stats.avgLatency.toFixed(0).padStart(16)} | ${('$' + stats.totalCost.toFixed(4)).padStart(10)} | ${stats.count.toString().padStart(5)} |`);
   }
+  if (results.some(r => r.usage?.estimated)) console.log('Token counts not reported by the provider are estimated offline.');
 
   // Save analysis
-  const analysisPath = path.join(OUTPUT_DIR, 'analysis-summary.json');
+  const analysisPath = path.join(outputDir, 'analysis-summary.json');
   fs.writeFileSync(analysisPath, JSON.stringify(summary, null, 2));
   console.log(`\nAnalysis saved to: ${analysisPath}`);
 }
@@ -689,8 +357,19 @@ function analyzeResults(results: ExperimentResult[]) {
 // MAIN
 // ============================================================================
 
-async function retryFailedExperiments() {
-  const resultsPath = path.join(OUTPUT_DIR, 'experiment-results.json');
+// Argument following a flag, e.g. getArg(args, '--config') for "--config path.json"
+function getArg(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+// Legacy results live directly in results/; config-driven runs in results/runs/<runId>/
+function resultsDirFor(runId?: string): string {
+  return runId ? path.join(RUNS_DIR, runId) : OUTPUT_DIR;
+}
+
+async function retryFailedExperiments(runId: string | undefined, concurrency: number, cacheOptions: CacheOptions) {
+  const resultsPath = path.join(resultsDirFor(runId), 'experiment-results.json');
   if (!fs.existsSync(resultsPath)) {
     console.error('No results file found. Run experiments first.');
     return;
@@ -701,38 +380,54 @@ async function retryFailedExperiments() {
 
   console.log(`Found ${failedResults.length} failed experiments to retry\n`);
 
-  for (const failed of failedResults) {
+  // Retried cells take the run's model overrides (system, maxTokens, ...) from
+  // its config snapshot, so they send the same request and hit the same cache
+  // key; the legacy results directory has no snapshot and used the registry
+  const snapshotPath = path.join(resultsDirFor(runId), 'config.json');
+  const runModels = fs.existsSync(snapshotPath)
+    ? new Map(resolveModels(loadExperimentConfig(snapshotPath, DATASET)).map(model => [model.name, model]))
+    : new Map<string, ModelSpec>();
+
+  const retries = failedResults.flatMap(failed => {
     const problem = PROBLEMS.find(p => p.id === failed.problemId);
     if (!problem) {
       console.log(`  Skipping ${failed.problemId}: problem not found`);
-      continue;
+      return [];
     }
 
-    const numExamples = failed.condition === 'zero-shot' ? 0 :
+    const shots = failed.condition === 'zero-shot' ? 0 :
       parseInt(failed.condition.replace('-shot', ''));
 
-    console.log(`Retrying: ${failed.problemId} - ${failed.model} - ${failed.condition}`);
-
-    const newResult = await runExperiment(problem, failed.model, numExamples);
-
-    // Replace the failed result
-    const index = results.findIndex(r =>
-      r.problemId === failed.problemId &&
-      r.model === failed.model &&
-      r.condition === failed.condition
-    );
-
-    if (index !== -1) {
-      results[index] = newResult;
-      console.log(`  ${newResult.response.startsWith('ERROR') ? 'Still failed' : 'Success!'}`);
-    }
-
-    // Save after each retry
-    fs.writeFileSync(resultsPath, JSON.stringify(results, null, 2));
+    const cell: ExperimentCell = {
+      problem,
+      model: runModels.get(failed.model) ?? getModelSpec(failed.model),
+      shots,
+      repetition: failed.repetition ?? 1,
+      temperature: failed.temperature ?? 0.7,
+      promptVariant: failed.promptVariant ?? 'default',
+      promptMode: failed.promptMode ?? 'inline',
+      promptStyle: failed.promptStyle ?? 'default',
+      selector: failed.selector ?? 'fixed',
+      exampleSeed: failed.exampleSeed ?? 0,
+      arrangement: failed.arrangement ?? 'original',
+      sample: failed.sample ?? 1,
+      samples: failed.samples ?? 1
+    };
+    return [{ failed, cell }];
+  });
 
-    // Wait between retries to avoid rate limiting
-    await new Promise(resolve => setTimeout(resolve, 3000));
-  }
+  // Provider limits space the calls out, so retries share the run's worker pool
+  await runPool(retries, concurrency, ({ failed, cell }) => runExperiment(cell, failed.runId, cacheOptions), {
+    onResult: (newResult, { failed }) => {
+      // Replace the failed result
+      results[results.indexOf(failed)] = newResult;
+      console.log(`  ${newResult.problemId} - ${newResult.model} - ${newResult.condition}: ${newResult.response.startsWith('ERROR') ? 'Still failed' : 'Success!'}`);
+
+      // Save after each retry
+      writeFileAtomic(resultsPath, JSON.stringify(results, null, 2));
+    },
+    onError: (error, { failed }) => console.error(`  Error: ${failed.problemId} - ${failed.model}: ${error}`)
+  });
 
   // Check remaining failures
   const stillFailed = results.filter(r => r.response.startsWith('ERROR'));
@@ -743,22 +438,36 @@ async function retryFailedExperiments() {
 
 async function main() {
   const args = process.argv.slice(2);
+  const runId = getArg(args, '--run');
+  const concurrency = parseInt(getArg(args, '--concurrency') ?? `${DEFAULT_CONCURRENCY}`, 10);
+  if (!(concurrency > 0)) {
+    console.error('--concurrency expects a positive integer');
+    process.exit(1);
+  }
+  if (args.includes('--offline') && args.includes('--no-cache')) {
+    console.error('--offline replays from the response cache and cannot be combined with --no-cache');
+    process.exit(1);
+  }
+  const cacheOptions: CacheOptions = {
+    cache: args.includes('--no-cache') ? null : openResponseCache(),
+    offline: args.includes('--offline')
+  };
 
   if (args.includes('--retry-failed')) {
-    // Retry only failed experiments
-    const results = await retryFailedExperiments();
+    // Retry only failed experiments (of a run, or the legacy results file)
+    const results = await retryFailedExperiments(runId, concurrency, cacheOptions);
     if (results) {
-      analyzeResults(results);
+      analyzeResults(results, resultsDirFor(runId));
     }
     return;
   }
 
   if (args.includes('--analyze-only')) {
     // Just analyze existing results
-    const resultsPath = path.join(OUTPUT_DIR, 'experiment-results.json');
+    const resultsPath = path.join(resultsDirFor(runId), 'experiment-results.json');
     if (fs.existsSync(resultsPath)) {
       const results = JSON.parse(fs.readFileSync(resultsPath, 'utf-8'));
-      analyzeResults(results);
+      analyzeResults(results, resultsDirFor(runId));
     } else {
       console.error('No results file found. Run experiments first.');
     }
@@ -769,23 +478,54 @@ async function main() {
     // Run a single test to verify setup
     console.log('Running single test to verify setup...\n');
     const testProblem = PROBLEMS[0];
+    const cell = (name: string): ExperimentCell =>
+      ({ problem: testProblem, model: getModelSpec(name), shots: 0, repetition: 1, temperature: 0.7, promptVariant: 'default', promptMode: 'inline', promptStyle: 'default', selector: 'fixed', exampleSeed: 0, arrangement: 'original', sample: 1, samples: 1 });
 
     console.log('Testing Claude zero-shot...');
-    const claudeResult = await runExperiment(testProblem, 'claude', 0);
+    const claudeResult = await runExperiment(cell('claude'));
     console.log('Claude response preview:', claudeResult.response.slice(0, 300));
     console.log(`Latency: ${claudeResult.latencyMs}ms\n`);
 
     console.log('Testing Gemini zero-shot (via API)...');
-    const geminiResult = await runExperiment(testProblem, 'gemini', 0);
+    const geminiResult = await runExperiment(cell('gemini'));
     console.log('Gemini response preview:', geminiResult.response.slice(0, 300));
     console.log(`Latency: ${geminiResult.latencyMs}ms\n`);
 
     return;
   }
 
-  // Run all experiments
-  const results = await runAllExperiments();
-  analyzeResults(results);
+  const resumeId = getArg(args, '--resume');
+  if (resumeId && !fs.existsSync(path.join(RUNS_DIR, resumeId, 'config.json'))) {
+    console.error(`No run ${resumeId} to resume in ${RUNS_DIR}.`);
+    return;
+  }
+
+  // A resumed run reruns its own snapshot; completed cells come back from the cache
+  const configPath = resumeId
+    ? path.join(RUNS_DIR, resumeId, 'config.json')
+    : getArg(args, '--config') ?? DEFAULT_CONFIG_PATH;
+  const loaded = loadExperimentConfig(configPath, DATASET);
+  const repetitions = getArg(args, '--repetitions');
+  if (repetitions !== undefined && !(parseInt(repetitions, 10) > 0)) {
+    console.error('--repetitions expects a positive integer');
+    process.exit(1);
+  }
+  const config = repetitions === undefined || resumeId ? loaded : { ...loaded, repetitions: parseInt(repetitions, 10) };
+
+  if (args.includes('--dry-run')) {
+    // Expand the matrix and estimate cost without calling any model
+    previewRun(config, expandMatrix(config, DATASET), cacheOptions.cache);
+    return;
+  }
+
+  // Run the configured matrix into its own results directory
+  const newRunId = resumeId ?? getArg(args, '--run-id') ?? createRunId(config);
+  if (!resumeId && fs.existsSync(path.join(RUNS_DIR, newRunId))) {
+    console.error(`Run ${newRunId} already exists; pick another --run-id, or continue it with --resume ${newRunId}.`);
+    return;
+  }
+  const results = await runAllExperiments(config, newRunId, concurrency, cacheOptions);
+  analyzeResults(results, path.join(RUNS_DIR, newRunId));
 }
 
 main().catch(console.error);